@@ -13,12 +13,62 @@ const CACHE_URLS = [
   '/public/icons/icon-512x512.png'
 ];
 
+// Snooze scheduling, shared with its tests
+importScripts('/snooze-schedule.js');
+
 // Debug logging
 const DEBUG = true; // Log helper function
 function log(...args) {
   console.log('[Service Worker]', ...args);
 }
 
+// Small key-value store in IndexedDB, for state the worker needs when no page is open
+const DB_NAME = 'monad-pulse-sw';
+const DB_STORE = 'keyval';
+
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbRequest(mode, run) {
+  return openDatabase().then((db) => new Promise((resolve, reject) => {
+    const transaction = db.transaction(DB_STORE, mode);
+    const request = run(transaction.objectStore(DB_STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  }));
+}
+
+const idbGet = (key) => idbRequest('readonly', (store) => store.get(key));
+const idbSet = (key, value) => idbRequest('readwrite', (store) => store.put(value, key));
+
+// Keys in the store
+const PUSH_CONFIG_KEY = 'pushConfig';
+const SUBSCRIPTION_REFRESH_KEY = 'subscriptionRefresh';
+const SNOOZED_KEY = 'snoozedNotifications';
+
+// Event reminders carry the event in their data:
+//   { eventId, start (ISO 8601), minutesBefore, url? }
+// and get these actions. Browsers show as many as they support, in this order.
+const REMINDER_ACTIONS = [
+  { action: 'snooze', title: 'Snooze 10 min' },
+  { action: 'open', title: 'Open event' },
+  { action: 'add-to-calendar', title: 'Add to calendar' }
+];
+// Opening an event with this hash downloads it as an ICS file (see src/utils/routes.ts)
+const ADD_TO_CALENDAR_HASH = '#add-to-calendar';
+
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
   log('Service worker installed');
@@ -80,12 +130,34 @@ self.addEventListener('activate', (event) => {
 
 // Fetch event - serve from cache, falling back to network
 self.addEventListener('fetch', (event) => {
+  // The worker is only woken up by events, so use page activity to show snoozed reminders that came due
+  const snoozeCheck = checkSnoozedSoon();
+  if (snoozeCheck) {
+    event.waitUntil(snoozeCheck);
+  }
+
   // Skip non-GET requests and chrome-extension requests
   if (event.request.method !== 'GET' || 
       event.request.url.startsWith('chrome-extension://')) {
     return;
   }
   
+  // App routes such as /event/:id only exist client-side: serve the app shell
+  // when the server has no page for them or when offline
+  if (event.request.mode === 'navigate') {
+    event.respondWith(
+      fetch(event.request)
+        .then((response) => {
+          if (response && response.status === 404) {
+            return caches.match('/index.html').then((cached) => cached || response);
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
   // Handle API requests with network-first strategy
   if (event.request.url.includes('/api/')) {
     event.respondWith(
@@ -140,6 +212,24 @@ self.addEventListener('fetch', (event) => {
 // Listen for messages from the client
 self.addEventListener('message', (event) => {
   log('Message received from client:', event.data);
+
+  // VAPID key, API location and email, for re-subscribing without the page
+  if (event.data && event.data.type === 'STORE_PUSH_CONFIG' && event.data.config) {
+    event.waitUntil(idbSet(PUSH_CONFIG_KEY, event.data.config));
+    return;
+  }
+
+  // Outcome of the last automatic re-subscription, for the settings
+  if (event.data && event.data.type === 'GET_SUBSCRIPTION_REFRESH') {
+    event.waitUntil(
+      idbGet(SUBSCRIPTION_REFRESH_KEY)
+        .catch(() => null)
+        .then((refresh) => {
+          event.ports && event.ports[0] && event.ports[0].postMessage({ refresh: refresh || null });
+        })
+    );
+    return;
+  }
   
   if (event.data && event.data.type === 'SHOW_NOTIFICATION' && event.data.notification) {
     log('Received SHOW_NOTIFICATION message, showing notification...');
@@ -176,9 +266,11 @@ function showNotification(notificationData) {
 
   const { title, ...options } = notificationData;
   log('Attempting to show notification with title:', title);
+  const isReminder = options.data && options.data.eventId;
   
   try {
     const promise = self.registration.showNotification(title, {
+      ...(isReminder ? { actions: REMINDER_ACTIONS } : {}),
       ...options,
       // Ensure required fields are set
       icon: options.icon || '/icons/icon-192x192.png',
@@ -205,6 +297,28 @@ function showNotification(notificationData) {
   }
 }
 
+// Reminder pushes carry the event and offset in their data. Tag them like the
+// reminders the page shows itself, and tell open tabs the reminder was delivered,
+// so that the same reminder doesn't show up twice.
+function handleReminderPush(notificationData) {
+  const data = notificationData && notificationData.data;
+  if (!data || !data.eventId || typeof data.minutesBefore !== 'number') {
+    return notificationData;
+  }
+
+  self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+    clientList.forEach((client) => {
+      client.postMessage({ type: 'REMINDER_DELIVERED', eventId: String(data.eventId), minutesBefore: data.minutesBefore });
+    });
+  });
+
+  const tag = `reminder:${data.eventId}:${data.minutesBefore}`;
+  // A snoozed reminder the server pushed again: the worker doesn't need to show it
+  forgetSnooze(tag);
+
+  return { tag, ...notificationData };
+}
+
 // Push event - handle incoming push notifications
 self.addEventListener('push', async (event) => {
   log('Push event received:', event);
@@ -219,6 +333,8 @@ self.addEventListener('push', async (event) => {
     log('No data in push event');
     return;
   }
+
+  event.waitUntil(showSnoozedNotifications());
   
   try {
     // Try to parse the push message data
@@ -230,7 +346,7 @@ self.addEventListener('push', async (event) => {
       log('Parsed push notification data:', notificationData);
       
       // Show the notification
-      showNotification(notificationData);
+      showNotification(handleReminderPush(notificationData));
       
     } else if (event.data.text) {
       // Fallback for text data
@@ -241,7 +357,7 @@ self.addEventListener('push', async (event) => {
       try {
         notificationData = JSON.parse(text);
         log('Parsed text data as JSON:', notificationData);
-        showNotification(notificationData);
+        showNotification(handleReminderPush(notificationData));
       } catch (e) {
         log('Could not parse push data as JSON, using as plain text');
         showNotification({
@@ -288,6 +404,110 @@ self.addEventListener('push', async (event) => {
   }
 });
 
+// Record of the snoozed reminders, see snooze-schedule.js
+const readSnoozed = () => idbGet(SNOOZED_KEY).then((snoozed) => (Array.isArray(snoozed) ? snoozed : []));
+
+let snoozeTimer = null;
+let lastSnoozeCheck = 0;
+
+// Show snoozed reminders the server didn't push in time, and wake up for the next one while the worker is running
+function showSnoozedNotifications() {
+  lastSnoozeCheck = Date.now();
+  return readSnoozed()
+    .then((snoozed) => {
+      const now = Date.now();
+      const { due, pending, nextAt } = snoozeSchedule.splitDueSnoozes(snoozed, now);
+
+      clearTimeout(snoozeTimer);
+      if (nextAt !== null) {
+        snoozeTimer = setTimeout(showSnoozedNotifications, nextAt - now);
+      }
+      if (due.length === 0) {
+        return null;
+      }
+
+      return idbSet(SNOOZED_KEY, pending).then(() => Promise.all(due.map((snooze) => showNotification({
+        title: snooze.title,
+        ...snooze.options,
+        body: snoozeSchedule.getSnoozedBody(snooze, now),
+        renotify: true
+      }))));
+    })
+    .catch((error) => log('Error showing snoozed notifications:', error));
+}
+
+// At most once a minute, from frequent events such as fetches
+function checkSnoozedSoon() {
+  return Date.now() - lastSnoozeCheck > 60 * 1000 ? showSnoozedNotifications() : null;
+}
+
+function forgetSnooze(tag) {
+  return readSnoozed()
+    .then((snoozed) => {
+      const remaining = snoozeSchedule.removeSnooze(snoozed, tag);
+      return remaining.length === snoozed.length ? null : idbSet(SNOOZED_KEY, remaining);
+    })
+    .catch((error) => log('Could not update snoozed notifications:', error));
+}
+
+// Ask the server to push the reminder again when the snooze ends, to this browser's subscription
+async function scheduleSnoozeOnServer(snooze) {
+  const config = (await idbGet(PUSH_CONFIG_KEY)) || {};
+  const subscription = await self.registration.pushManager.getSubscription();
+  if (!subscription) {
+    throw new Error('No push subscription to send the snoozed reminder to');
+  }
+
+  const data = snooze.options.data || {};
+  await callApi(config, '/api/users/me/snoozes', 'POST', {
+    endpoint: subscription.endpoint,
+    eventId: data.eventId,
+    minutesBefore: data.minutesBefore,
+    start: data.start,
+    title: snooze.title,
+    sendAt: new Date(snooze.showAt).toISOString()
+  });
+}
+
+async function snoozeNotification(notification) {
+  const snooze = snoozeSchedule.createSnooze(notification, Date.now());
+  try {
+    await scheduleSnoozeOnServer(snooze);
+    snooze.scheduledOnServer = true;
+  } catch (error) {
+    // The worker shows it itself, if it is running or started again by then
+    log('Could not schedule the snooze on the server:', error);
+  }
+
+  await idbSet(SNOOZED_KEY, snoozeSchedule.addSnooze(await readSnoozed(), snooze));
+  return showSnoozedNotifications();
+}
+
+// Focus a tab already showing `url`, or route an open app tab to it, or open a new one
+function openAppUrl(url, { reuseMatching = true } = {}) {
+  return clients.matchAll({ type: 'window' })
+    .then((clientList) => {
+      // Check if there's already a window/tab open with the app
+      if (reuseMatching) {
+        for (const client of clientList) {
+          if (client.url.includes(url) && 'focus' in client) {
+            return client.focus();
+          }
+        }
+      }
+      // Otherwise reuse an open app window and route it to the event
+      const appClient = clientList.find((client) => 'navigate' in client);
+      if (appClient) {
+        return appClient.navigate(url).then((client) => (client || appClient).focus());
+      }
+      // If no matching client is found, open a new window
+      if (clients.openWindow) {
+        return clients.openWindow(url);
+      }
+      return null;
+    });
+}
+
 // Notification click event - handle user interaction with notifications
 self.addEventListener('notificationclick', (event) => {
   // Close the notification
@@ -295,35 +515,24 @@ self.addEventListener('notificationclick', (event) => {
 
   // Handle the click action
   const { action, notification } = event;
-  const { data } = notification;
-
-  // Default action is to open the event URL
-  let url = '/';
-  if (data && data.url) {
-    url = data.url;
-  } else if (data && data.eventId) {
-    url = `/event/${data.eventId}`;
+  const data = notification.data || {};
+  const eventPath = data.eventId ? `/event/${encodeURIComponent(data.eventId)}` : null;
+
+  if (action === 'snooze') {
+    event.waitUntil(snoozeNotification(notification));
+    return;
   }
 
-  // Handle different actions
-  if (action === 'view' || action === '') {
+  if (action === 'add-to-calendar' && eventPath) {
+    // The app builds the ICS file; always navigate, so that a tab already on the event downloads it too
+    event.waitUntil(openAppUrl(`${eventPath}${ADD_TO_CALENDAR_HASH}`, { reuseMatching: false }));
+    return;
+  }
+
+  if (action === 'open' || action === 'view' || action === '') {
     // Open or focus the app
-    event.waitUntil(
-      clients.matchAll({ type: 'window' })
-        .then((clientList) => {
-          // Check if there's already a window/tab open with the app
-          for (const client of clientList) {
-            if (client.url.includes(url) && 'focus' in client) {
-              return client.focus();
-            }
-          }
-          // If no matching client is found, open a new window
-          if (clients.openWindow) {
-            return clients.openWindow(url);
-          }
-          return null;
-        })
-    );
+    const url = (action === 'open' && eventPath) || data.url || eventPath || '/';
+    event.waitUntil(openAppUrl(url));
   }
   // For 'dismiss' or other actions, just close the notification
 });
@@ -334,13 +543,70 @@ self.addEventListener('notificationclose', (event) => {
   console.log('Notification closed:', event);
 });
 
-// Push subscription change event
+// Convert a base64url VAPID key to the Uint8Array pushManager.subscribe expects
+function urlBase64ToUint8Array(base64String) {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+  return Uint8Array.from(rawData, (char) => char.charCodeAt(0));
+}
+
+function callApi(config, path, method, body) {
+  return fetch(`${config.apiBaseUrl || ''}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body)
+  }).then((response) => {
+    if (!response.ok) {
+      throw new Error(`${method} ${path} returned ${response.status}`);
+    }
+  });
+}
+
+// Subscribe again with the stored VAPID key, register the new endpoint and drop the old one
+async function resubscribe(event) {
+  const config = (await idbGet(PUSH_CONFIG_KEY)) || {};
+  const oldSubscription = event.oldSubscription || null;
+  let subscription = event.newSubscription || null;
+
+  if (!subscription) {
+    // Subscriptions made before the key was stored still carry it in their options
+    const applicationServerKey = config.vapidPublicKey
+      ? urlBase64ToUint8Array(config.vapidPublicKey)
+      : oldSubscription && oldSubscription.options && oldSubscription.options.applicationServerKey;
+    if (!applicationServerKey) {
+      throw new Error('No VAPID key stored to re-subscribe with');
+    }
+    subscription = await self.registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+  }
+
+  const { endpoint, keys } = subscription.toJSON();
+  await callApi(config, '/api/users/me/push-subscriptions', 'POST', { endpoint, keys, email: config.email, userAgent: navigator.userAgent });
+  if (oldSubscription && oldSubscription.endpoint !== endpoint) {
+    await callApi(config, '/api/users/me/push-subscriptions', 'DELETE', { endpoint: oldSubscription.endpoint });
+  }
+}
+
+// The worker was (re)started: catch up on snoozed reminders the server didn't push
+showSnoozedNotifications();
+
+// Push subscription change event - the browser expired or replaced the subscription
 self.addEventListener('pushsubscriptionchange', (event) => {
+  log('Push subscription changed:', event);
+
   event.waitUntil(
-    Promise.resolve().then(() => {
-      // Handle subscription change (e.g., when push subscription expires)
-      console.log('Push subscription changed:', event);
-      // You would typically re-subscribe here and update the server
-    })
+    resubscribe(event)
+      .then(() => ({ at: new Date().toISOString(), ok: true }))
+      .catch((error) => {
+        log('Re-subscribing failed:', error);
+        return { at: new Date().toISOString(), ok: false, error: String((error && error.message) || error) };
+      })
+      .then((refresh) => Promise.all([
+        idbSet(SUBSCRIPTION_REFRESH_KEY, refresh).catch((error) => log('Could not record the refresh:', error)),
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+          clientList.forEach((client) => client.postMessage({ type: 'PUSH_SUBSCRIPTION_REFRESHED', refresh }));
+        })
+      ]))
   );
 });
@@ -0,0 +1,68 @@
+// Scheduling of snoozed reminders, loaded by the service worker with importScripts.
+// It doesn't use any worker API, so that it can be tested on its own.
+//
+// A snooze is sent to the server, which pushes the reminder again when it is due:
+// that also works while the browser has stopped the worker. The worker keeps its
+// own record of the snooze in IndexedDB and shows the reminder itself only when
+// the server could not take the snooze, or its push is late.
+
+(function (scope) {
+  const SNOOZE_MS = 10 * 60 * 1000;
+  // How long the server's push gets before the worker shows a snoozed reminder itself
+  const SERVER_GRACE_MS = 2 * 60 * 1000;
+
+  // Snooze of a reminder notification, to be shown again SNOOZE_MS after `now`
+  function createSnooze(notification, now) {
+    const { title, body, icon, badge, tag, data } = notification;
+    return {
+      showAt: now + SNOOZE_MS,
+      scheduledOnServer: false,
+      title,
+      options: { body, icon, badge, tag, data }
+    };
+  }
+
+  // Snoozing the same reminder again replaces the earlier snooze
+  function addSnooze(snoozes, snooze) {
+    const { tag } = snooze.options;
+    return [...removeSnooze(snoozes, tag), snooze];
+  }
+
+  // Drop the snooze of a reminder, e.g. once the server pushed it again
+  function removeSnooze(snoozes, tag) {
+    return tag ? snoozes.filter((snooze) => snooze.options.tag !== tag) : snoozes;
+  }
+
+  // When the worker should show a snoozed reminder itself
+  function getLocalDueTime(snooze) {
+    return snooze.showAt + (snooze.scheduledOnServer ? SERVER_GRACE_MS : 0);
+  }
+
+  // Snoozes the worker should show now, the ones left, and when the next of those is due
+  function splitDueSnoozes(snoozes, now) {
+    const due = snoozes.filter((snooze) => getLocalDueTime(snooze) <= now);
+    const pending = snoozes.filter((snooze) => getLocalDueTime(snooze) > now);
+    const nextAt = pending.length > 0 ? Math.min(...pending.map(getLocalDueTime)) : null;
+    return { due, pending, nextAt };
+  }
+
+  // Body of a snoozed reminder shown again: the time left until the event, when its start is known
+  function getSnoozedBody(snooze, now) {
+    const start = snooze.options.data && snooze.options.data.start;
+    const minutesLeft = start ? Math.round((new Date(start).getTime() - now) / 60000) : NaN;
+    if (isNaN(minutesLeft)) {
+      return snooze.options.body;
+    }
+    return minutesLeft > 0 ? `Starts in ${minutesLeft} min` : 'Starting now';
+  }
+
+  scope.snoozeSchedule = {
+    SNOOZE_MS,
+    SERVER_GRACE_MS,
+    createSnooze,
+    addSnooze,
+    removeSnooze,
+    splitDueSnoozes,
+    getSnoozedBody
+  };
+})(self);
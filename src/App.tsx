@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
+import { Navigate, Route, Routes, useLocation } from 'react-router-dom';
 import AnimatedIntro from './components/AnimatedIntro';
 import MainCalendar from './components/MainCalendar';
 import { registerServiceWorker } from './utils/serviceWorkerRegistration';
+import { ROUTES } from './utils/routes';
 
 function App() {
-  const [showIntro, setShowIntro] = useState(true);
+  const location = useLocation();
+  // Skip the intro for deep links (notifications, shared events) so they open right away
+  const [showIntro, setShowIntro] = useState(location.pathname === '/');
 
   useEffect(() => {
     // Set a timeout to hide the intro
@@ -37,7 +41,16 @@ function App() {
       {showIntro ? (
         <AnimatedIntro />
       ) : (
-        <MainCalendar />
+        <Routes>
+          {/* MainCalendar stays mounted across routes and reads them itself */}
+          <Route element={<MainCalendar />}>
+            <Route index element={null} />
+            <Route path={ROUTES.month} element={null} />
+            <Route path={ROUTES.day} element={null} />
+            <Route path={ROUTES.event} element={null} />
+          </Route>
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
       )}
     </div>
   );
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { CalendarEvent } from '../types/calendar';
+import { buildEventIcs, getGoogleCalendarUrl, getOutlookCalendarUrl, getWebcalUrl } from '../utils/calendarExport';
+import { parseIcsCalendar } from '../utils/icsParser';
+import { makeEvent } from './helpers/events';
+
+const event = (overrides: Partial<CalendarEvent> = {}) => makeEvent('ama-12', '2025-03-10T17:00:00.000Z', {
+  title: 'Monad AMA, with the team; #12',
+  description: '<p>Ask us <b>anything</b></p>',
+  end: '2025-03-10T18:00:00.000Z',
+  allDay: false,
+  location: 'Discord, #stage',
+  htmlLink: 'https://example.com/events/ama-12',
+  ...overrides
+});
+
+const range = { timeMin: new Date('2025-03-01T00:00:00Z'), timeMax: new Date('2025-04-01T00:00:00Z') };
+
+describe('buildEventIcs', () => {
+  it('builds a VEVENT that parses back to the same event', () => {
+    const ics = buildEventIcs(event(), [60, 10], new Date('2025-03-01T12:00:00Z'));
+
+    expect(ics).toContain('UID:ama-12@monadpulse\r\n');
+    expect(ics).toContain('DTSTAMP:20250301T120000Z\r\n');
+    expect(ics).toContain('SUMMARY:Monad AMA\\, with the team\\; #12\r\n');
+    expect(ics).toContain('URL:https://example.com/events/ama-12\r\n');
+
+    const [parsed] = parseIcsCalendar(ics, range);
+    expect(parsed).toMatchObject({
+      title: 'Monad AMA, with the team; #12',
+      location: 'Discord, #stage',
+      start: '2025-03-10T17:00:00.000Z',
+      end: '2025-03-10T18:00:00.000Z'
+    });
+    expect(parsed.description).toContain('Ask us anything');
+  });
+
+  it('adds a display alarm for each reminder', () => {
+    const ics = buildEventIcs(event(), [60, 10]);
+
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(2);
+    expect(ics).toContain('TRIGGER:-PT60M');
+    expect(ics).toContain('TRIGGER:-PT10M');
+  });
+
+  it('uses date values for all-day events and folds long lines', () => {
+    const ics = buildEventIcs(event({
+      start: '2025-03-14',
+      end: '2025-03-15',
+      allDay: true,
+      description: 'x'.repeat(200)
+    }));
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250314\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20250315\r\n');
+    ics.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(75));
+  });
+
+  it('folds lines by UTF-8 octets without splitting characters', () => {
+    const title = 'Ünïcødé 🚀 '.repeat(20);
+    const ics = buildEventIcs(event({ title }));
+
+    const lines = ics.split('\r\n');
+    lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    lines.forEach(line => expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])/));
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`SUMMARY:${title}\r\n`);
+  });
+});
+
+describe('calendar links', () => {
+  it('includes the location in Google and Outlook links', () => {
+    const google = new URL(getGoogleCalendarUrl(event()));
+    expect(google.searchParams.get('dates')).toBe('20250310T170000Z/20250310T180000Z');
+    expect(google.searchParams.get('location')).toBe('Discord, #stage');
+
+    const outlook = new URL(getOutlookCalendarUrl(event(), 'work'));
+    expect(outlook.host).toBe('outlook.office.com');
+    expect(outlook.searchParams.get('startdt')).toBe('2025-03-10T17:00:00.000Z');
+    expect(outlook.searchParams.get('location')).toBe('Discord, #stage');
+  });
+});
+
+describe('getWebcalUrl', () => {
+  it('swaps the scheme of a feed URL', () => {
+    expect(getWebcalUrl('https://pulse.example.com/feeds/abc123.ics')).toBe('webcal://pulse.example.com/feeds/abc123.ics');
+  });
+});
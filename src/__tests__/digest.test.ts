@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_DIGEST_SETTINGS,
+  DigestSettings,
+  buildDigestPreview,
+  getNextDigestTime,
+  normalizeDigestSettings
+} from '../utils/digest';
+import { makeEvent } from './helpers/events';
+
+const digest = (overrides: Partial<DigestSettings> = {}): DigestSettings => ({
+  ...DEFAULT_DIGEST_SETTINGS,
+  frequency: 'daily',
+  ...overrides
+});
+
+const event = (id: string, start: string, type = 'AMA') =>
+  makeEvent(id, start, { extendedProperties: { eventType: type } });
+
+describe('digest', () => {
+  it('schedules daily digests at the next send time in the given timezone', () => {
+    // 08:00 in New York is 12:00 UTC in June
+    expect(getNextDigestTime(digest(), 'America/New_York', new Date('2025-06-13T10:00:00Z'))?.toISOString())
+      .toBe('2025-06-13T12:00:00.000Z');
+    expect(getNextDigestTime(digest(), 'America/New_York', new Date('2025-06-13T12:00:00Z'))?.toISOString())
+      .toBe('2025-06-14T12:00:00.000Z');
+    expect(getNextDigestTime(digest({ frequency: 'off' }), 'UTC', new Date('2025-06-13T10:00:00Z'))).toBeNull();
+  });
+
+  it('schedules weekly digests on the chosen weekday', () => {
+    // Friday 13 June 2025; Monday digests go out on the 16th, Friday ones a week later once sent
+    expect(getNextDigestTime(digest({ frequency: 'weekly' }), 'UTC', new Date('2025-06-13T10:00:00Z'))?.toISOString())
+      .toBe('2025-06-16T08:00:00.000Z');
+    expect(getNextDigestTime(digest({ frequency: 'weekly', weekday: 5 }), 'UTC', new Date('2025-06-13T10:00:00Z'))?.toISOString())
+      .toBe('2025-06-20T08:00:00.000Z');
+  });
+
+  it('lists the included events of the days the digest covers', () => {
+    const events = [
+      event('next-week', '2025-06-23T15:00:00Z'),
+      event('monday-call', '2025-06-16T15:00:00Z'),
+      event('sunday-launch', '2025-06-22T20:00:00Z', 'Launch'),
+      event('today', '2025-06-13T15:00:00Z')
+    ];
+    const now = new Date('2025-06-13T10:00:00Z');
+
+    const weekly = buildDigestPreview(events, digest({ frequency: 'weekly' }), 'UTC', undefined, now);
+    expect(weekly?.days).toHaveLength(7);
+    expect(weekly?.events.map(item => item.id)).toEqual(['monday-call', 'sunday-launch']);
+
+    // Sunday's digest, with launches switched off
+    const sunday = new Date('2025-06-22T07:00:00Z');
+    expect(buildDigestPreview(events, digest(), 'UTC', undefined, sunday)?.events.map(item => item.id))
+      .toEqual(['sunday-launch']);
+    expect(buildDigestPreview(events, digest(), 'UTC', item => item.extendedProperties?.eventType !== 'Launch', sunday)?.events)
+      .toEqual([]);
+  });
+
+  it('falls back to defaults for invalid stored settings', () => {
+    expect(normalizeDigestSettings(undefined)).toEqual(DEFAULT_DIGEST_SETTINGS);
+    expect(normalizeDigestSettings({ frequency: 'hourly', time: '7:00', weekday: 8, timezone: 'Mars/Base' }))
+      .toEqual(DEFAULT_DIGEST_SETTINGS);
+    expect(normalizeDigestSettings({ frequency: 'weekly', time: '18:30', weekday: 0, timezone: 'Europe/Paris' }))
+      .toEqual({ frequency: 'weekly', time: '18:30', weekday: 0, timezone: 'Europe/Paris' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  eventOccursOnDay,
+  getEventDayRange,
+  layoutDayEvents,
+  layoutWeekSegments,
+  parseEventDate
+} from '../utils/eventLayout';
+import { makeEvent } from './helpers/events';
+
+const event = (id: string, start: string, end: string, allDay?: boolean) =>
+  makeEvent(id, start, { end, allDay });
+
+// Monday 10 March 2025 to Sunday 16 March 2025
+const week = Array.from({ length: 7 }, (_, index) => new Date(2025, 2, 10 + index));
+
+describe('eventLayout', () => {
+  it('parses date-only values as local dates', () => {
+    const date = parseEventDate('2025-03-14');
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2025, 2, 14, 0]);
+  });
+
+  it('treats the end date of all-day events as exclusive', () => {
+    const hackathon = event('hackathon', '2025-03-14', '2025-03-17', true);
+    const { first, last } = getEventDayRange(hackathon);
+
+    expect(first.getDate()).toBe(14);
+    expect(last.getDate()).toBe(16);
+    expect(eventOccursOnDay(hackathon, new Date(2025, 2, 16))).toBe(true);
+    expect(eventOccursOnDay(hackathon, new Date(2025, 2, 17))).toBe(false);
+  });
+
+  it('does not spill timed events ending at midnight into the next day', () => {
+    const party = event('party', new Date(2025, 2, 14, 20).toISOString(), new Date(2025, 2, 15).toISOString());
+    expect(eventOccursOnDay(party, new Date(2025, 2, 14))).toBe(true);
+    expect(eventOccursOnDay(party, new Date(2025, 2, 15))).toBe(false);
+  });
+
+  it('places timed events on the day they fall on in the display timezone', () => {
+    // 23:30 UTC on 14 March is already 15 March in Tokyo and still 14 March in New York
+    const ama = event('ama', '2025-03-14T23:30:00Z', '2025-03-15T00:30:00Z');
+    expect(eventOccursOnDay(ama, new Date(2025, 2, 15), 'Asia/Tokyo')).toBe(true);
+    expect(eventOccursOnDay(ama, new Date(2025, 2, 14), 'Asia/Tokyo')).toBe(false);
+    expect(eventOccursOnDay(ama, new Date(2025, 2, 14), 'America/New_York')).toBe(true);
+    expect(eventOccursOnDay(ama, new Date(2025, 2, 15), 'America/New_York')).toBe(false);
+
+    // All-day events cover the same dates everywhere
+    const hackathon = event('hackathon', '2025-03-14', '2025-03-15', true);
+    expect(eventOccursOnDay(hackathon, new Date(2025, 2, 14), 'Pacific/Kiritimati')).toBe(true);
+  });
+
+  it('lays out overlapping multi-day events in separate lanes', () => {
+    const segments = layoutWeekSegments(week, [
+      event('conference', '2025-03-08', '2025-03-12', true),
+      event('hackathon', '2025-03-11', '2025-03-20', true),
+      event('meetup', '2025-03-13', '2025-03-14', true),
+      event('ama', new Date(2025, 2, 12, 17).toISOString(), new Date(2025, 2, 12, 18).toISOString())
+    ]);
+
+    expect(segments.map(({ event, startColumn, span, lane, continuesBefore, continuesAfter }) => ({
+      id: event.id, startColumn, span, lane, continuesBefore, continuesAfter
+    }))).toEqual([
+      { id: 'conference', startColumn: 0, span: 2, lane: 0, continuesBefore: true, continuesAfter: false },
+      { id: 'hackathon', startColumn: 1, span: 6, lane: 1, continuesBefore: false, continuesAfter: true },
+      { id: 'meetup', startColumn: 3, span: 1, lane: 0, continuesBefore: false, continuesAfter: false }
+    ]);
+  });
+
+  it('splits overlapping timed events into columns', () => {
+    const at = (hour: number, minute = 0) => new Date(2025, 2, 12, hour, minute).toISOString();
+    const layouts = layoutDayEvents(new Date(2025, 2, 12), [
+      event('ama', at(17), at(18)),
+      event('workshop', at(17, 30), at(19)),
+      event('office-hours', at(18), at(18, 30)),
+      event('standup', at(9), at(9)),
+      event('conference', '2025-03-11', '2025-03-13', true)
+    ]);
+
+    expect(layouts.map(({ event, startMinutes, endMinutes, column, columns }) => ({
+      id: event.id, startMinutes, endMinutes, column, columns
+    }))).toEqual([
+      { id: 'standup', startMinutes: 540, endMinutes: 560, column: 0, columns: 1 },
+      { id: 'ama', startMinutes: 1020, endMinutes: 1080, column: 0, columns: 2 },
+      { id: 'workshop', startMinutes: 1050, endMinutes: 1140, column: 1, columns: 2 },
+      { id: 'office-hours', startMinutes: 1080, endMinutes: 1110, column: 0, columns: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildSearchIndex, findMatches, searchEvents, stripHtml } from '../utils/eventSearch';
+import { CalendarEvent } from '../types/calendar';
+import { makeEvent } from './helpers/events';
+
+const event = (id: string, title: string, start: string, extra: Partial<CalendarEvent> = {}) =>
+  makeEvent(id, start, { title, ...extra });
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+describe('eventSearch', () => {
+  it('strips HTML from descriptions', () => {
+    expect(stripHtml('<p>Join the <b>AMA</b> &amp; win</p><br/>prizes')).toBe('Join the AMA & win prizes');
+  });
+
+  it('merges overlapping matches', () => {
+    expect(findMatches('Monad AMA with Monad', ['monad', 'ad a'])).toEqual([[0, 7], [15, 20]]);
+  });
+
+  it('requires every term and ranks title matches first, then the soonest upcoming event', () => {
+    const index = buildSearchIndex([
+      event('past', 'Builder AMA', '2025-02-01T17:00:00Z'),
+      event('later', 'Builder AMA', '2025-04-01T17:00:00Z'),
+      event('next', 'Builder AMA', '2025-03-12T17:00:00Z'),
+      event('description', 'Office hours', '2025-03-11T17:00:00Z', { description: 'An AMA for builders' }),
+      event('other', 'Community call', '2025-03-11T17:00:00Z')
+    ]);
+
+    expect(searchEvents(index, 'builder ama', now).map(result => result.event.id))
+      .toEqual(['next', 'later', 'past', 'description']);
+    expect(searchEvents(index, 'ama unrelated', now)).toEqual([]);
+  });
+
+  it('returns highlighted ranges and a description snippet', () => {
+    const index = buildSearchIndex([
+      event('ama', 'Monad AMA', '2025-03-12T17:00:00Z', {
+        description: 'Ask the core team anything about parallel execution',
+        location: 'Monad Discord'
+      })
+    ]);
+
+    const [result] = searchEvents(index, 'monad parallel', now);
+    expect(result.titleMatches).toEqual([[0, 5]]);
+    expect(result.locationMatches).toEqual([[0, 5]]);
+    expect(result.snippet?.text.slice(...(result.snippet.matches[0]))).toBe('parallel');
+  });
+});
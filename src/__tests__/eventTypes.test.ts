@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { createEventTypeResolver, getEventType, matchStoredEventType, normalizeEventTitle } from '../utils/eventTypes';
+import { CalendarEvent } from '../types/calendar';
+import { makeEvent } from './helpers/events';
+
+const event = (title: string, extra: Partial<CalendarEvent> = {}) =>
+  makeEvent(title, '2025-03-14T17:00:00Z', { end: '2025-03-14T18:00:00Z', ...extra });
+
+describe('eventTypes', () => {
+  it('strips numbers, dates and emoji from titles', () => {
+    expect(normalizeEventTitle('Monad AMA #12')).toBe('Monad AMA');
+    expect(normalizeEventTitle('🎙️ Monad AMA #13 (Mar 14)')).toBe('Monad AMA');
+    expect(normalizeEventTitle('Builders Call - 2025-03-14')).toBe('Builders Call');
+    expect(normalizeEventTitle('Dev Workshop Ep. 4: Parallel Execution')).toBe('Dev Workshop: Parallel Execution');
+    expect(normalizeEventTitle('Community Call | Thursday 14th March')).toBe('Community Call');
+  });
+
+  it('keeps titles that are nothing but noise', () => {
+    expect(normalizeEventTitle('2025')).toBe('2025');
+  });
+
+  it('prefers the explicit event type', () => {
+    expect(getEventType(event('Monad AMA #12', { extendedProperties: { eventType: 'AMA' } }))).toBe('AMA');
+  });
+
+  it('keeps recurring series together and merges names that only differ in case', () => {
+    const events = [
+      event('Weekly Sync', { recurringEventId: 'sync' }),
+      event('Weekly Sync', { recurringEventId: 'sync' }),
+      event('Weekly Sync (moved to Friday)', { recurringEventId: 'sync' }),
+      event('monad ama #3'),
+      event('Monad AMA #4')
+    ];
+    const getType = createEventTypeResolver(events);
+
+    expect(events.map(getType)).toEqual(['Weekly Sync', 'Weekly Sync', 'Weekly Sync', 'monad ama', 'monad ama']);
+  });
+
+  it('applies preferences saved under raw titles to their series', () => {
+    const types = ['Builders Call', 'Monad AMA'];
+
+    expect(matchStoredEventType('Monad AMA', types)).toBe('Monad AMA');
+    expect(matchStoredEventType('🎙️ Monad AMA #12', types)).toBe('Monad AMA');
+    expect(matchStoredEventType('builders call - 2025-03-14', types)).toBe('Builders Call');
+    expect(matchStoredEventType('Office Hours', types)).toBeNull();
+  });
+});
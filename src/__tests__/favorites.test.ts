@@ -0,0 +1,105 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react';
+import favoritesService from '../services/favoritesService';
+import { useFavorites } from '../hooks/useFavorites';
+import { makeEvent } from './helpers/events';
+
+const mockApi = {
+  get: jest.fn<(path: string) => Promise<unknown>>(),
+  post: jest.fn<(path: string, body: unknown) => Promise<unknown>>(),
+  delete: jest.fn<(path: string) => Promise<unknown>>()
+};
+
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: {
+    get: (path: string) => mockApi.get(path),
+    post: (path: string, body: unknown) => mockApi.post(path, body),
+    delete: (path: string) => mockApi.delete(path)
+  }
+}));
+
+const PENDING_KEY = 'monad-pulse-favorites-pending';
+
+const launch = makeEvent('launch', '2025-06-14T15:00:00Z');
+const ama = makeEvent('ama', '2025-06-15T15:00:00Z');
+
+// A favorite as the server returns it
+const serverFavorite = (eventId: string) => ({
+  event_id: eventId,
+  title: eventId,
+  start_time: '2025-06-16T15:00:00Z',
+  end_time: '2025-06-16T15:00:00Z'
+});
+
+const readPending = () => JSON.parse(localStorage.getItem(PENDING_KEY) || '{}');
+const favoriteIds = () => favoritesService.getFavorites().map(favorite => favorite.eventId);
+
+beforeEach(() => {
+  localStorage.clear();
+  mockApi.get.mockReset().mockResolvedValue([]);
+  mockApi.post.mockReset().mockResolvedValue({});
+  mockApi.delete.mockReset().mockResolvedValue({});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('favoritesService', () => {
+  it('queues a change the server did not take and sends it on the next sync', async () => {
+    mockApi.post.mockRejectedValueOnce(new Error('offline'));
+
+    await favoritesService.toggleFavorite(launch);
+    expect(favoriteIds()).toEqual(['launch']);
+    expect(Object.keys(readPending())).toEqual(['launch']);
+
+    mockApi.get.mockResolvedValue([serverFavorite('launch')]);
+    await favoritesService.sync();
+
+    expect(mockApi.post).toHaveBeenCalledTimes(2);
+    expect(readPending()).toEqual({});
+    expect(favoriteIds()).toEqual(['launch']);
+  });
+
+  it('keeps queued changes over the server list while they still fail', async () => {
+    await favoritesService.toggleFavorite(launch);
+    mockApi.delete.mockRejectedValue(new Error('offline'));
+    mockApi.post.mockRejectedValue(new Error('offline'));
+    await favoritesService.toggleFavorite(launch);
+    await favoritesService.toggleFavorite(ama);
+
+    // The server still has the unstarred event and doesn't know the new one yet
+    mockApi.get.mockResolvedValue([serverFavorite('launch'), serverFavorite('spaces')]);
+    await favoritesService.sync();
+
+    expect(favoriteIds()).toEqual(['spaces', 'ama']);
+    expect(readPending()).toEqual({ launch: null, ama: expect.objectContaining({ eventId: 'ama' }) });
+  });
+
+  it('keeps a change made while an earlier one was being sent', async () => {
+    let finishPost: () => void = () => {};
+    mockApi.post.mockReturnValueOnce(new Promise(resolve => {
+      finishPost = () => resolve({});
+    }));
+    mockApi.delete.mockRejectedValueOnce(new Error('offline'));
+
+    const starring = favoritesService.toggleFavorite(launch);
+    await favoritesService.toggleFavorite(launch);
+    finishPost();
+    await starring;
+
+    expect(favoriteIds()).toEqual([]);
+    expect(readPending()).toEqual({ launch: null });
+  });
+});
+
+describe('useFavorites', () => {
+  it('updates when an event is starred', async () => {
+    const { result } = renderHook(() => useFavorites());
+    expect(result.current.favoriteIds.size).toBe(0);
+
+    await act(async () => {
+      await result.current.toggleFavorite(launch);
+    });
+
+    expect(Array.from(result.current.favoriteIds)).toEqual(['launch']);
+  });
+});
@@ -0,0 +1,153 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import eventCache, { SyncState, getStaleSyncKeys } from '../services/eventCache';
+import { syncGoogleCalendarRange } from '../services/googleCalendarSync';
+import { GoogleCalendarItem } from '../utils/googleCalendarApi';
+import { makeEvent } from './helpers/events';
+
+const config = { calendarId: 'monad@group.calendar.google.com', apiKey: 'test-key' };
+const range = { timeMin: new Date('2025-03-01T00:00:00Z'), timeMax: new Date('2025-04-01T00:00:00Z') };
+const SOURCE_ID = 'google:monad';
+
+const item = (id: string, start: string, overrides: Partial<GoogleCalendarItem> = {}): GoogleCalendarItem => ({
+  id,
+  summary: id,
+  start: { dateTime: start },
+  end: { dateTime: start },
+  ...overrides
+});
+
+const syncState = (overrides: Partial<SyncState> = {}): SyncState => ({
+  key: `google:${config.calendarId}|${range.timeMin.toISOString()}|${range.timeMax.toISOString()}`,
+  syncToken: 'token-1',
+  timeMin: range.timeMin.getTime(),
+  timeMax: range.timeMax.getTime(),
+  syncedAt: 0,
+  ...overrides
+});
+
+// events.list responses, one per request
+const mockFetch = jest.fn<typeof fetch>();
+const respond = (status: number, body: object) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    json: () => Promise.resolve(body)
+  } as Response);
+};
+const requestedParams = (call: number) => new URL(String(mockFetch.mock.calls[call][0])).searchParams;
+
+let readSyncState: jest.SpiedFunction<typeof eventCache.readSyncState>;
+let readSourceEvents: jest.SpiedFunction<typeof eventCache.readSourceEvents>;
+let writeSyncState: jest.SpiedFunction<typeof eventCache.writeSyncState>;
+let deleteSyncState: jest.SpiedFunction<typeof eventCache.deleteSyncState>;
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  global.fetch = mockFetch;
+  readSyncState = jest.spyOn(eventCache, 'readSyncState').mockResolvedValue(null);
+  readSourceEvents = jest.spyOn(eventCache, 'readSourceEvents').mockResolvedValue([]);
+  writeSyncState = jest.spyOn(eventCache, 'writeSyncState').mockResolvedValue();
+  deleteSyncState = jest.spyOn(eventCache, 'deleteSyncState').mockResolvedValue();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('syncGoogleCalendarRange', () => {
+  it('follows nextPageToken through a full sync and stores only the sync token', async () => {
+    respond(200, { items: [item('late', '2025-03-20T10:00:00Z')], nextPageToken: 'page-2' });
+    respond(200, {
+      items: [item('early', '2025-03-05T10:00:00Z'), item('gone', '2025-03-06T10:00:00Z', { status: 'cancelled' })],
+      nextSyncToken: 'token-1'
+    });
+
+    const result = await syncGoogleCalendarRange(range, config, SOURCE_ID);
+
+    expect(result.mode).toBe('full');
+    expect(result.events.map(event => event.id)).toEqual(['early', 'late']);
+    expect(requestedParams(0).get('timeMin')).toBe(range.timeMin.toISOString());
+    expect(requestedParams(0).has('pageToken')).toBe(false);
+    expect(requestedParams(1).get('pageToken')).toBe('page-2');
+    expect(writeSyncState).toHaveBeenCalledWith(expect.objectContaining({ syncToken: 'token-1' }));
+    expect(writeSyncState.mock.calls[0][0]).not.toHaveProperty('events');
+  });
+
+  it('applies the changes since the sync token to the cached events of the window', async () => {
+    readSyncState.mockResolvedValue(syncState());
+    readSourceEvents.mockResolvedValue([
+      makeEvent('kept', '2025-03-02T10:00:00Z', { sourceId: SOURCE_ID }),
+      makeEvent('moved', '2025-03-03T10:00:00Z', { sourceId: SOURCE_ID }),
+      makeEvent('cancelled', '2025-03-04T10:00:00Z', { sourceId: SOURCE_ID })
+    ]);
+    respond(200, {
+      items: [
+        item('moved', '2025-03-25T10:00:00Z', { summary: 'Moved' }),
+        item('cancelled', '2025-03-04T10:00:00Z', { status: 'cancelled' }),
+        item('added', '2025-03-10T10:00:00Z'),
+        item('next-year', '2026-03-10T10:00:00Z')
+      ],
+      nextSyncToken: 'token-2'
+    });
+
+    const result = await syncGoogleCalendarRange(range, config, SOURCE_ID);
+
+    expect(readSourceEvents).toHaveBeenCalledWith(SOURCE_ID, range);
+    expect(requestedParams(0).get('syncToken')).toBe('token-1');
+    expect(requestedParams(0).has('timeMin')).toBe(false);
+    expect(result.mode).toBe('incremental');
+    expect(result.events.map(event => [event.id, event.title])).toEqual([
+      ['kept', 'kept'],
+      ['added', 'added'],
+      ['moved', 'Moved']
+    ]);
+    expect(writeSyncState).toHaveBeenCalledWith(expect.objectContaining({ syncToken: 'token-2' }));
+  });
+
+  it('falls back to a full sync when the sync token has expired', async () => {
+    readSyncState.mockResolvedValue(syncState());
+    respond(410, { error: { errors: [{ reason: 'fullSyncRequired' }] } });
+    respond(200, { items: [item('fresh', '2025-03-12T10:00:00Z')], nextSyncToken: 'token-3' });
+
+    const result = await syncGoogleCalendarRange(range, config, SOURCE_ID);
+
+    expect(deleteSyncState).toHaveBeenCalledWith(syncState().key);
+    expect(requestedParams(1).has('syncToken')).toBe(false);
+    expect(requestedParams(1).get('timeMin')).toBe(range.timeMin.toISOString());
+    expect(result).toEqual(expect.objectContaining({ mode: 'full', changedCount: 1 }));
+    expect(writeSyncState).toHaveBeenCalledWith(expect.objectContaining({ syncToken: 'token-3' }));
+  });
+
+  it('runs a full sync when the cached events cannot be read', async () => {
+    readSyncState.mockResolvedValue(syncState());
+    readSourceEvents.mockResolvedValue(null);
+    respond(200, { items: [item('fresh', '2025-03-12T10:00:00Z')], nextSyncToken: 'token-2' });
+
+    const result = await syncGoogleCalendarRange(range, config, SOURCE_ID);
+
+    expect(result.mode).toBe('full');
+    expect(requestedParams(0).has('syncToken')).toBe(false);
+  });
+});
+
+describe('getStaleSyncKeys', () => {
+  const now = new Date('2025-03-15T00:00:00Z').getTime();
+  const daysAgo = (days: number) => now - days * 24 * 60 * 60 * 1000;
+
+  it('drops sync states that were not used for a month', () => {
+    const states = [
+      syncState({ key: 'old-search', syncedAt: daysAgo(40) }),
+      syncState({ key: 'last-week', syncedAt: daysAgo(7) })
+    ];
+
+    expect(getStaleSyncKeys(states, now)).toEqual(['old-search']);
+  });
+
+  it('keeps only the most recently synced states', () => {
+    const states = Array.from({ length: 52 }, (_, index) => syncState({ key: `range-${index}`, syncedAt: daysAgo(1) + index }));
+
+    expect(getStaleSyncKeys(states, now)).toEqual(['range-0', 'range-1']);
+  });
+});
@@ -0,0 +1,11 @@
+import { CalendarEvent } from '../../types/calendar';
+
+// Event for tests, titled after its ID and ending when it starts unless overridden
+export const makeEvent = (id: string, start: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id,
+  title: id,
+  description: '',
+  start,
+  end: start,
+  ...overrides
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseIcsCalendar } from '../utils/icsParser';
+
+const calendar = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Monad Pulse//Test//EN',
+  ...events,
+  'END:VCALENDAR'
+].join('\r\n');
+
+const vevent = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+
+const range = (from: string, to: string) => ({ timeMin: new Date(from), timeMax: new Date(to) });
+
+describe('parseIcsCalendar', () => {
+  it('parses a single event with escaped and folded text', () => {
+    const ics = calendar(vevent(
+      'UID:ama-1',
+      'SUMMARY:Monad AMA\\, part 1',
+      'DESCRIPTION:Line one\\nLine two with a long',
+      '  folded continuation',
+      'LOCATION:Discord',
+      'CATEGORIES:AMA,Community',
+      'DTSTART:20250310T170000Z',
+      'DTEND:20250310T180000Z'
+    ));
+
+    const events = parseIcsCalendar(ics, range('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: 'ama-1',
+      title: 'Monad AMA, part 1',
+      description: 'Line one\nLine two with a long folded continuation',
+      location: 'Discord',
+      start: '2025-03-10T17:00:00.000Z',
+      end: '2025-03-10T18:00:00.000Z',
+      allDay: false,
+      extendedProperties: { eventType: 'AMA' }
+    });
+  });
+
+  it('drops events outside the window', () => {
+    const ics = calendar(vevent('UID:old', 'SUMMARY:Old', 'DTSTART:20240101T100000Z', 'DTEND:20240101T110000Z'));
+    expect(parseIcsCalendar(ics, range('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'))).toHaveLength(0);
+  });
+
+  it('resolves TZID parameters across a DST change', () => {
+    const ics = calendar(vevent(
+      'UID:weekly-ny',
+      'SUMMARY:Weekly call',
+      'DTSTART;TZID=America/New_York:20250303T120000',
+      'DTEND;TZID=America/New_York:20250303T130000',
+      'RRULE:FREQ=WEEKLY;COUNT=2'
+    ));
+
+    const events = parseIcsCalendar(ics, range('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'));
+
+    // EST (UTC-5) before 9 March, EDT (UTC-4) after
+    expect(events.map(event => event.start)).toEqual([
+      '2025-03-03T17:00:00.000Z',
+      '2025-03-10T16:00:00.000Z'
+    ]);
+  });
+
+  it('expands weekly rules with BYDAY, EXDATE and RDATE', () => {
+    const ics = calendar(vevent(
+      'UID:office-hours',
+      'SUMMARY:Office hours',
+      'DTSTART:20250303T150000Z',
+      'DURATION:PT30M',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250312T235959Z',
+      'EXDATE:20250305T150000Z',
+      'RDATE:20250320T150000Z'
+    ));
+
+    const events = parseIcsCalendar(ics, range('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'));
+
+    expect(events.map(event => event.start)).toEqual([
+      '2025-03-03T15:00:00.000Z',
+      '2025-03-10T15:00:00.000Z',
+      '2025-03-12T15:00:00.000Z',
+      '2025-03-20T15:00:00.000Z'
+    ]);
+    expect(events[0].end).toBe('2025-03-03T15:30:00.000Z');
+    expect(events[0].id).toBe('office-hours_20250303T150000Z');
+  });
+
+  it('expands monthly rules with ordinal weekdays inside the window only', () => {
+    const ics = calendar(vevent(
+      'UID:last-friday',
+      'SUMMARY:Community call',
+      'DTSTART:20240126T160000Z',
+      'DTEND:20240126T170000Z',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR'
+    ));
+
+    const events = parseIcsCalendar(ics, range('2025-02-01T00:00:00Z', '2025-04-01T00:00:00Z'));
+
+    expect(events.map(event => event.start)).toEqual([
+      '2025-02-28T16:00:00.000Z',
+      '2025-03-28T16:00:00.000Z'
+    ]);
+  });
+
+  it('expands open-ended rules that started long before the window', () => {
+    const ics = calendar(vevent(
+      'UID:standup',
+      'SUMMARY:Daily standup',
+      'DTSTART:19900101T090000Z',
+      'DTEND:19900101T091500Z',
+      'RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR'
+    ));
+
+    const events = parseIcsCalendar(ics, range('2025-03-03T00:00:00Z', '2025-03-08T00:00:00Z'));
+
+    expect(events.map(event => event.start)).toEqual([
+      '2025-03-03T09:00:00.000Z',
+      '2025-03-04T09:00:00.000Z',
+      '2025-03-05T09:00:00.000Z',
+      '2025-03-06T09:00:00.000Z',
+      '2025-03-07T09:00:00.000Z'
+    ]);
+  });
+
+  it('expands hourly rules from the start time', () => {
+    const ics = calendar(vevent(
+      'UID:validator-check',
+      'SUMMARY:Validator check',
+      'DTSTART:20240101T013000Z',
+      'DURATION:PT30M',
+      'RRULE:FREQ=HOURLY;INTERVAL=6'
+    ));
+
+    const events = parseIcsCalendar(ics, range('2025-03-10T00:00:00Z', '2025-03-11T00:00:00Z'));
+
+    expect(events.map(event => event.start)).toEqual([
+      '2025-03-10T01:30:00.000Z',
+      '2025-03-10T07:30:00.000Z',
+      '2025-03-10T13:30:00.000Z',
+      '2025-03-10T19:30:00.000Z'
+    ]);
+  });
+
+  it('replaces modified instances and skips cancelled ones', () => {
+    const ics = calendar(
+      vevent(
+        'UID:daily',
+        'SUMMARY:Standup',
+        'DTSTART:20250303T090000Z',
+        'DTEND:20250303T091500Z',
+        'RRULE:FREQ=DAILY;COUNT=3'
+      ),
+      vevent(
+        'UID:daily',
+        'RECURRENCE-ID:20250304T090000Z',
+        'SUMMARY:Standup (moved)',
+        'DTSTART:20250304T110000Z',
+        'DTEND:20250304T111500Z'
+      ),
+      vevent('UID:cancelled', 'STATUS:CANCELLED', 'SUMMARY:Gone', 'DTSTART:20250305T100000Z')
+    );
+
+    const events = parseIcsCalendar(ics, range('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'));
+
+    expect(events.map(event => [event.title, event.start])).toEqual([
+      ['Standup', '2025-03-03T09:00:00.000Z'],
+      ['Standup (moved)', '2025-03-04T11:00:00.000Z'],
+      ['Standup', '2025-03-05T09:00:00.000Z']
+    ]);
+  });
+
+  it('keeps all-day events as date-only values with an exclusive end', () => {
+    const ics = calendar(vevent(
+      'UID:hackathon',
+      'SUMMARY:Hackathon',
+      'DTSTART;VALUE=DATE:20250314',
+      'DTEND;VALUE=DATE:20250317'
+    ));
+
+    const [event] = parseIcsCalendar(ics, range('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'));
+
+    expect(event).toMatchObject({ start: '2025-03-14', end: '2025-03-17', allDay: true });
+  });
+});
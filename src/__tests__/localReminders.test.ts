@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatTimeUntilStart, getDueReminders } from '../utils/localReminders';
+import { DEFAULT_QUIET_HOURS } from '../utils/quietHours';
+import { makeEvent } from './helpers/events';
+
+const offsets = () => [60, 10];
+
+describe('localReminders', () => {
+  it('returns reminders that are due, but not those that are long overdue or upcoming', () => {
+    const events = [
+      makeEvent('soon', '2025-06-13T12:15:00Z'),
+      makeEvent('later', '2025-06-13T14:00:00Z'),
+      makeEvent('all-day', '2025-06-13', { allDay: true })
+    ];
+
+    const due = getDueReminders(events, offsets, DEFAULT_QUIET_HOURS, 'UTC', new Date('2025-06-13T12:00:00Z'));
+
+    // "soon" had its 1 hour reminder at 11:15, more than 15 minutes ago; its 10 minute one is at 12:05
+    expect(due).toEqual([]);
+    expect(getDueReminders(events, offsets, DEFAULT_QUIET_HOURS, 'UTC', new Date('2025-06-13T12:06:00Z'))
+      .map(reminder => reminder.key)).toEqual(['soon:10']);
+  });
+
+  it('lists each reminder once when an event was loaded twice', () => {
+    const events = [makeEvent('launch', '2025-06-13T13:00:00Z'), makeEvent('launch', '2025-06-13T13:00:00Z')];
+
+    expect(getDueReminders(events, offsets, DEFAULT_QUIET_HOURS, 'UTC', new Date('2025-06-13T12:01:00Z')))
+      .toHaveLength(1);
+  });
+
+  it('follows quiet hours', () => {
+    const events = [makeEvent('night', '2025-06-13T03:00:00Z')];
+    const quietHours = { ...DEFAULT_QUIET_HOURS, enabled: true };
+
+    // Deferred to 07:00, when quiet hours end
+    expect(getDueReminders(events, offsets, quietHours, 'UTC', new Date('2025-06-13T02:55:00Z'))).toEqual([]);
+    expect(getDueReminders(events, offsets, quietHours, 'UTC', new Date('2025-06-13T07:01:00Z'))
+      .map(reminder => [reminder.key, reminder.dueAt.toISOString()]))
+      .toEqual([['night:60', '2025-06-13T07:00:00.000Z'], ['night:10', '2025-06-13T07:00:00.000Z']]);
+    expect(getDueReminders(events, offsets, { ...quietHours, behavior: 'suppress' }, 'UTC', new Date('2025-06-13T07:01:00Z')))
+      .toEqual([]);
+  });
+
+  it('describes the time left until the event', () => {
+    const launch = makeEvent('launch', '2025-06-13T13:00:00Z');
+
+    expect(formatTimeUntilStart(launch, new Date('2025-06-13T12:50:00Z'))).toBe('Starts in 10 minutes');
+    expect(formatTimeUntilStart(launch, new Date('2025-06-13T13:00:20Z'))).toBe('Starting now');
+  });
+});
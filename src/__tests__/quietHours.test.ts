@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_QUIET_HOURS,
+  QuietHours,
+  applyQuietHours,
+  getQuietHoursEnd,
+  normalizeQuietHours,
+  previewQuietHours
+} from '../utils/quietHours';
+import { makeEvent } from './helpers/events';
+
+const quietHours = (overrides: Partial<QuietHours> = {}): QuietHours => ({
+  ...DEFAULT_QUIET_HOURS,
+  enabled: true,
+  ...overrides
+});
+
+describe('quietHours', () => {
+  it('covers windows that wrap past midnight in the given timezone', () => {
+    // 22:00 - 07:00 in New York (UTC-4 in June)
+    const settings = quietHours();
+
+    expect(getQuietHoursEnd(new Date('2025-06-13T03:00:00Z'), settings, 'America/New_York')?.toISOString())
+      .toBe('2025-06-13T11:00:00.000Z');
+    expect(getQuietHoursEnd(new Date('2025-06-13T07:00:00Z'), settings, 'America/New_York')?.toISOString())
+      .toBe('2025-06-13T11:00:00.000Z');
+    expect(getQuietHoursEnd(new Date('2025-06-13T16:00:00Z'), settings, 'America/New_York')).toBeNull();
+  });
+
+  it('only applies on the weekdays the window starts on', () => {
+    // Friday nights only: Friday 23:00 UTC is quiet, Saturday 23:00 is not, Saturday 03:00 still is
+    const settings = quietHours({ days: [5] });
+
+    expect(getQuietHoursEnd(new Date('2025-06-13T23:00:00Z'), settings, 'UTC')).not.toBeNull();
+    expect(getQuietHoursEnd(new Date('2025-06-14T03:00:00Z'), settings, 'UTC')).not.toBeNull();
+    expect(getQuietHoursEnd(new Date('2025-06-14T23:00:00Z'), settings, 'UTC')).toBeNull();
+  });
+
+  it('defers or suppresses reminders inside the window', () => {
+    const date = new Date('2025-06-13T03:00:00Z');
+
+    expect(applyQuietHours(date, quietHours(), 'UTC')).toEqual({ action: 'defer', at: new Date('2025-06-13T07:00:00Z') });
+    expect(applyQuietHours(date, quietHours({ behavior: 'suppress' }), 'UTC')).toEqual({ action: 'suppress' });
+    expect(applyQuietHours(date, quietHours({ enabled: false }), 'UTC')).toEqual({ action: 'send', at: date });
+  });
+
+  it('previews the reminders of upcoming events that are held back', () => {
+    const events = [
+      makeEvent('night-launch', '2025-06-14T03:00:00Z'),
+      makeEvent('night-space', '2025-06-14T04:00:00Z'),
+      makeEvent('muted-call', '2025-06-14T02:00:00Z'),
+      makeEvent('lunch-ama', '2025-06-14T12:00:00Z')
+    ];
+    const offsets: Record<string, number[]> = { 'night-launch': [60, 10], 'night-space': [10, 10], 'lunch-ama': [60] };
+
+    const preview = previewQuietHours(
+      events,
+      event => offsets[event.id] || [],
+      quietHours(),
+      'UTC',
+      new Date('2025-06-13T12:00:00Z')
+    );
+
+    expect(preview.map(item => [item.event.id, item.minutesBefore, item.outcome.action]))
+      .toEqual([['night-launch', 60, 'defer'], ['night-launch', 10, 'defer'], ['night-space', 10, 'defer']]);
+  });
+
+  it('falls back to defaults for invalid stored settings', () => {
+    expect(normalizeQuietHours(null)).toEqual(DEFAULT_QUIET_HOURS);
+    expect(normalizeQuietHours({ enabled: true, start: '25:00', end: '06:30', days: [1, 1, 9], behavior: 'x' }))
+      .toEqual({ enabled: true, start: '22:00', end: '06:30', days: [1], behavior: 'defer' });
+  });
+});
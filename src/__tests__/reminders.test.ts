@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatReminderOffset,
+  getReminderTime,
+  isValidReminderOffset,
+  normalizeReminderOffsets,
+  offsetsFromLegacyFlags,
+  resolveTypeReminderOffsets
+} from '../utils/reminders';
+
+describe('reminders', () => {
+  it('formats offsets in days, hours and minutes', () => {
+    expect(formatReminderOffset(0)).toBe('At start time');
+    expect(formatReminderOffset(1)).toBe('1 minute');
+    expect(formatReminderOffset(90)).toBe('1 hour 30 minutes');
+    expect(formatReminderOffset(1440)).toBe('1 day');
+    expect(formatReminderOffset(2 * 1440 + 120)).toBe('2 days 2 hours');
+  });
+
+  it('accepts whole minutes up to a week', () => {
+    expect(isValidReminderOffset(15)).toBe(true);
+    expect(isValidReminderOffset(7 * 24 * 60)).toBe(true);
+    expect(isValidReminderOffset(7 * 24 * 60 + 1)).toBe(false);
+    expect(isValidReminderOffset(-5)).toBe(false);
+    expect(isValidReminderOffset(2.5)).toBe(false);
+    expect(isValidReminderOffset(NaN)).toBe(false);
+  });
+
+  it('computes when a reminder fires', () => {
+    expect(getReminderTime(new Date('2025-03-14T17:00:00Z'), 90).toISOString()).toBe('2025-03-14T15:30:00.000Z');
+  });
+
+  it('sorts and de-duplicates offset lists', () => {
+    expect(normalizeReminderOffsets([10, 1440, '60', 10, -1, 'soon'])).toEqual([1440, 60, 10]);
+    expect(normalizeReminderOffsets([])).toEqual([]);
+    expect(normalizeReminderOffsets(undefined)).toBeNull();
+  });
+
+  it('migrates the 1 hour and 10 minute toggles', () => {
+    expect(offsetsFromLegacyFlags(true, true)).toEqual([60, 10]);
+    expect(offsetsFromLegacyFlags(false, true)).toEqual([10]);
+    expect(offsetsFromLegacyFlags(false, false)).toEqual([]);
+    // Missing toggles defaulted to on
+    expect(offsetsFromLegacyFlags(undefined, undefined)).toEqual([60, 10]);
+  });
+
+  it('falls back to the global offsets for types without an override', () => {
+    const global = { email: [60, 10], browser: [10] };
+
+    expect(resolveTypeReminderOffsets({}, global)).toEqual({ ...global, override: null });
+    expect(resolveTypeReminderOffsets({ email: null, browser: null }, global)).toEqual({ ...global, override: null });
+    expect(resolveTypeReminderOffsets({ email: [1440], browser: [] }, global))
+      .toEqual({ email: [1440], browser: [], override: { email: [1440], browser: [] } });
+    // The channel without an override keeps following the global offsets
+    expect(resolveTypeReminderOffsets({ browser: [5] }, global))
+      .toEqual({ email: [60, 10], browser: [5], override: { email: null, browser: [5] } });
+  });
+});
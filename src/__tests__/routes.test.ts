@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { getDayPath, getEventPath, getMonthPath, parseDayParam, parseMonthParams } from '../utils/routes';
+
+describe('routes', () => {
+  it('builds paths that parse back to the same dates', () => {
+    const date = new Date(2025, 2, 9);
+    expect(getMonthPath(date)).toBe('/2025/03');
+    expect(getDayPath(date)).toBe('/day/2025-03-09');
+    expect(parseMonthParams('2025', '03')).toEqual(new Date(2025, 2, 1));
+    expect(parseDayParam('2025-03-09')).toEqual(date);
+  });
+
+  it('rejects months and days that do not exist', () => {
+    expect(parseMonthParams('2025', '13')).toBeNull();
+    expect(parseMonthParams('day', '2025-03-09')).toBeNull();
+    expect(parseDayParam('2025-02-30')).toBeNull();
+    expect(parseDayParam('tomorrow')).toBeNull();
+  });
+
+  it('encodes event IDs', () => {
+    expect(getEventPath('abc_20250309T170000Z')).toBe('/event/abc_20250309T170000Z');
+    expect(getEventPath('a/b')).toBe('/event/a%2Fb');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+interface Snooze {
+  showAt: number;
+  scheduledOnServer: boolean;
+  title: string;
+  options: { body?: string; tag?: string; data?: { start?: string } };
+}
+
+interface SnoozeSchedule {
+  SNOOZE_MS: number;
+  SERVER_GRACE_MS: number;
+  createSnooze(notification: { title: string; body?: string; tag?: string; data?: object }, now: number): Snooze;
+  addSnooze(snoozes: Snooze[], snooze: Snooze): Snooze[];
+  removeSnooze(snoozes: Snooze[], tag: string): Snooze[];
+  splitDueSnoozes(snoozes: Snooze[], now: number): { due: Snooze[]; pending: Snooze[]; nextAt: number | null };
+  getSnoozedBody(snooze: Snooze, now: number): string | undefined;
+}
+
+// The service worker loads the script with importScripts: run it the same way, against a bare scope
+const scope: { snoozeSchedule?: SnoozeSchedule } = {};
+new Function('self', readFileSync(resolve(__dirname, '../../public/snooze-schedule.js'), 'utf8'))(scope);
+const schedule = scope.snoozeSchedule as SnoozeSchedule;
+
+const now = Date.parse('2025-06-13T12:00:00Z');
+const reminder = (tag: string) => ({
+  title: 'Monad AMA',
+  body: 'Starts in 10 minutes',
+  tag,
+  data: { eventId: 'ama', minutesBefore: 10, start: '2025-06-13T12:10:00Z' }
+});
+
+describe('snoozeSchedule', () => {
+  it('leaves the server time to push a snoozed reminder before the worker shows it', () => {
+    const local = schedule.createSnooze(reminder('reminder:ama:60'), now);
+    const onServer = { ...schedule.createSnooze(reminder('reminder:ama:10'), now), scheduledOnServer: true };
+    const snoozes = [local, onServer];
+
+    expect(schedule.splitDueSnoozes(snoozes, now)).toMatchObject({ due: [], nextAt: now + schedule.SNOOZE_MS });
+    expect(schedule.splitDueSnoozes(snoozes, now + schedule.SNOOZE_MS)).toMatchObject({
+      due: [local],
+      pending: [onServer],
+      nextAt: now + schedule.SNOOZE_MS + schedule.SERVER_GRACE_MS
+    });
+    expect(schedule.splitDueSnoozes(snoozes, now + schedule.SNOOZE_MS + schedule.SERVER_GRACE_MS).due)
+      .toEqual(snoozes);
+  });
+
+  it('keeps one snooze per reminder and drops it once pushed', () => {
+    const first = schedule.createSnooze(reminder('reminder:ama:10'), now);
+    const again = schedule.createSnooze(reminder('reminder:ama:10'), now + 60 * 1000);
+    const other = schedule.createSnooze(reminder('reminder:ama:60'), now);
+
+    const snoozes = schedule.addSnooze(schedule.addSnooze(schedule.addSnooze([], first), other), again);
+    expect(snoozes).toEqual([other, again]);
+    expect(schedule.removeSnooze(snoozes, 'reminder:ama:10')).toEqual([other]);
+  });
+
+  it('tells the time left when the reminder shows again', () => {
+    const snooze = schedule.createSnooze(reminder('reminder:ama:10'), now);
+
+    expect(schedule.getSnoozedBody(snooze, now + schedule.SNOOZE_MS - 5 * 60 * 1000)).toBe('Starts in 5 min');
+    expect(schedule.getSnoozedBody(snooze, now + schedule.SNOOZE_MS)).toBe('Starting now');
+    expect(schedule.getSnoozedBody({ ...snooze, options: { body: 'Soon' } }, now)).toBe('Soon');
+  });
+});
@@ -0,0 +1,48 @@
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+import { renderHook, waitFor } from '@testing-library/react';
+import eventCache from '../services/eventCache';
+import { useLinkedEvent } from '../hooks/useLinkedEvent';
+import { makeEvent } from './helpers/events';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('useLinkedEvent', () => {
+  it('waits for the calendar to finish fetching before reporting an event not in the cache yet', async () => {
+    const launch = makeEvent('launch', '2025-09-01T15:00:00Z');
+    const findEvent = jest.spyOn(eventCache, 'findEvent').mockResolvedValue(null);
+
+    const { result, rerender } = renderHook(
+      ({ settled }) => useLinkedEvent('launch', false, settled),
+      { initialProps: { settled: false } }
+    );
+
+    await waitFor(() => expect(findEvent).toHaveBeenCalledTimes(1));
+    expect(result.current).toEqual({ linkedEvent: null, notFound: false });
+
+    // The background fetch cached the event
+    findEvent.mockResolvedValue(launch);
+    rerender({ settled: true });
+
+    await waitFor(() => expect(result.current.linkedEvent).toBe(launch));
+    expect(result.current.notFound).toBe(false);
+  });
+
+  it('reports the event not found once the calendar has settled without it', async () => {
+    jest.spyOn(eventCache, 'findEvent').mockResolvedValue(null);
+
+    const { result } = renderHook(() => useLinkedEvent('removed', false, true));
+
+    await waitFor(() => expect(result.current.notFound).toBe(true));
+  });
+
+  it('does not look up events that are already loaded', () => {
+    const findEvent = jest.spyOn(eventCache, 'findEvent');
+
+    const { result } = renderHook(() => useLinkedEvent('launch', true, true));
+
+    expect(findEvent).not.toHaveBeenCalled();
+    expect(result.current).toEqual({ linkedEvent: null, notFound: false });
+  });
+});
@@ -0,0 +1,82 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { UserPreferences } from '../services/notificationService';
+import { useLocalReminders } from '../hooks/useLocalReminders';
+import { DEFAULT_QUIET_HOURS } from '../utils/quietHours';
+import { makeEvent } from './helpers/events';
+
+const mockPreferences = {
+  notifyBrowser: true,
+  notifyAllEvents: true,
+  browserReminderOffsets: [10],
+  quietHours: DEFAULT_QUIET_HOURS,
+  timezone: 'UTC'
+} as UserPreferences;
+const mockIsSubscribed = jest.fn<() => Promise<boolean>>();
+
+jest.mock('../services/api', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/notificationService', () => ({
+  __esModule: true,
+  PREFERENCES_CHANGE_EVENT: 'monad-pulse:preferences-change',
+  default: {
+    getPreferences: () => Promise.resolve(mockPreferences),
+    getEventPreferences: () => Promise.resolve([]),
+    getUniqueEventTypes: () => [],
+    isSubscribed: () => mockIsSubscribed()
+  }
+}));
+
+// Event starting `minutes` from now
+const startingIn = (id: string, minutes: number) =>
+  makeEvent(id, new Date(Date.now() + minutes * 60 * 1000).toISOString());
+
+beforeEach(() => {
+  localStorage.clear();
+  // The service worker that relays REMINDER_DELIVERED from push
+  Object.defineProperty(navigator, 'serviceWorker', { value: new EventTarget(), configurable: true });
+});
+
+afterEach(() => {
+  Reflect.deleteProperty(navigator, 'serviceWorker');
+});
+
+describe('useLocalReminders', () => {
+  it('gives push a head start before showing a reminder itself', async () => {
+    mockIsSubscribed.mockResolvedValue(true);
+    // 10 minute reminders: one was due a minute ago, the other three minutes ago
+    const events = [startingIn('recent', 9), startingIn('overdue', 7)];
+
+    const { result, unmount } = renderHook(() => useLocalReminders(events, () => {}));
+
+    await waitFor(() => expect(result.current.toasts.map(toast => toast.key)).toEqual(['overdue:10']));
+    unmount();
+  });
+
+  it('shows reminders as toasts where the browser has no notifications', async () => {
+    // e.g. iOS Safari outside a Home Screen app
+    Object.defineProperty(window, 'Notification', { value: undefined, configurable: true });
+    mockIsSubscribed.mockResolvedValue(false);
+    const events = [startingIn('launch', 9)];
+
+    const { result, unmount } = renderHook(() => useLocalReminders(events, () => {}));
+
+    await waitFor(() => expect(result.current.toasts.map(toast => toast.key)).toEqual(['launch:10']));
+    unmount();
+    Reflect.deleteProperty(window, 'Notification');
+  });
+
+  it('does not repeat reminders the service worker delivered by push', async () => {
+    mockIsSubscribed.mockResolvedValue(false);
+    const events = [startingIn('pushed', 9), startingIn('missed', 9)];
+
+    const { result, unmount } = renderHook(() => useLocalReminders(events, () => {}));
+    act(() => {
+      navigator.serviceWorker.dispatchEvent(new MessageEvent('message', {
+        data: { type: 'REMINDER_DELIVERED', eventId: 'pushed', minutesBefore: 10 }
+      }));
+    });
+
+    await waitFor(() => expect(result.current.toasts.map(toast => toast.key)).toEqual(['missed:10']));
+    unmount();
+  });
+});
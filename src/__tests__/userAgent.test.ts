@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { describeUserAgent } from '../utils/userAgent';
+
+describe('userAgent', () => {
+  it('tells browsers that all claim to be Chrome or Safari apart', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+    )).toBe('Chrome on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15'
+    )).toBe('Safari on macOS');
+  });
+
+  it('recognizes mobile systems before the desktop ones they mention', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/126.0.6478.54 Mobile/15E148 Safari/604.1'
+    )).toBe('Chrome on iOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Android 14; Mobile; rv:127.0) Gecko/127.0 Firefox/127.0'
+    )).toBe('Firefox on Android');
+  });
+
+  it('falls back when nothing is recognized', () => {
+    expect(describeUserAgent('curl/8.4.0')).toBe('Unknown device');
+    expect(describeUserAgent(null)).toBe('Unknown device');
+  });
+});
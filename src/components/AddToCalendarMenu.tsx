@@ -0,0 +1,111 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Calendar, ChevronDown, Download } from 'lucide-react';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { CalendarEvent } from '../types/calendar';
+import { downloadEventIcs, getGoogleCalendarUrl, getOutlookCalendarUrl } from '../utils/calendarExport';
+
+interface AddToCalendarMenuProps {
+  event: CalendarEvent;
+}
+
+interface CalendarOption {
+  label: string;
+  description: string;
+  onSelect: (event: CalendarEvent) => void;
+}
+
+const openInNewTab = (url: string) => {
+  window.open(url, '_blank', 'noopener,noreferrer');
+};
+
+const CALENDAR_OPTIONS: CalendarOption[] = [
+  {
+    label: 'Google Calendar',
+    description: 'Opens Google Calendar',
+    onSelect: event => openInNewTab(getGoogleCalendarUrl(event))
+  },
+  {
+    label: 'Outlook.com',
+    description: 'Personal Microsoft account',
+    onSelect: event => openInNewTab(getOutlookCalendarUrl(event, 'personal'))
+  },
+  {
+    label: 'Outlook (Microsoft 365)',
+    description: 'Work or school account',
+    onSelect: event => openInNewTab(getOutlookCalendarUrl(event, 'work'))
+  },
+  {
+    label: 'Apple Calendar',
+    description: 'Downloads an .ics file to open',
+    onSelect: event => downloadEventIcs(event)
+  }
+];
+
+const DOWNLOAD_OPTION: CalendarOption = {
+  label: 'Download .ics file',
+  description: 'For any other calendar app',
+  onSelect: event => downloadEventIcs(event)
+};
+
+const AddToCalendarMenu: React.FC<AddToCalendarMenuProps> = ({ event }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setOpen(false), []);
+  useClickOutside(menuRef, close, open);
+
+  const select = (option: CalendarOption) => {
+    setOpen(false);
+    option.onSelect(event);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      {open && (
+        <ul
+          role="menu"
+          className="absolute bottom-full left-0 right-0 mb-2 bg-[#1a1a2e] border border-white border-opacity-12 rounded-xl shadow-2xl shadow-[#886FFF]/30 py-1 z-10"
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setOpen(false);
+          }}
+        >
+          {CALENDAR_OPTIONS.map(option => (
+            <li key={option.label} role="none">
+              <button
+                role="menuitem"
+                onClick={() => select(option)}
+                className="w-full px-4 py-2 text-left hover:bg-[#886FFF] hover:bg-opacity-20 transition-colors duration-200"
+              >
+                <div className="font-medium text-white">{option.label}</div>
+                <div className="text-xs text-[#c9c9d1]">{option.description}</div>
+              </button>
+            </li>
+          ))}
+          <li role="none" className="border-t border-white border-opacity-10 mt-1 pt-1">
+            <button
+              role="menuitem"
+              onClick={() => select(DOWNLOAD_OPTION)}
+              className="w-full px-4 py-2 text-left flex items-center gap-2 text-[#c9c9d1] hover:text-white hover:bg-[#886FFF] hover:bg-opacity-20 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              {DOWNLOAD_OPTION.label}
+            </button>
+          </li>
+        </ul>
+      )}
+
+      <button
+        onClick={() => setOpen(value => !value)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="w-full px-6 py-3 bg-[#886FFF] hover:bg-[#ae7aff] rounded-lg font-medium transition-colors duration-200 flex items-center justify-center gap-2"
+      >
+        <Calendar className="w-4 h-4" />
+        Add to My Calendar
+        <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${open ? 'rotate-180' : ''}`} />
+      </button>
+    </div>
+  );
+};
+
+export default AddToCalendarMenu;
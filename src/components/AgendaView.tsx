@@ -0,0 +1,141 @@
+import React, { useEffect, useRef } from 'react';
+import { MapPin } from 'lucide-react';
+import { CalendarEvent } from '../types/calendar';
+import { getEventDayRange, isAllDayEvent, parseEventDate, startOfDayIn } from '../utils/eventLayout';
+import { formatInTimeZone } from '../utils/timezone';
+
+interface AgendaViewProps {
+  events: CalendarEvent[];
+  // True until the first month has been loaded
+  initialLoading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  // Timezone timed events are placed in
+  timeZone: string;
+  onEventClick: (event: CalendarEvent) => void;
+  onLoadMore: () => void;
+}
+
+interface AgendaDay {
+  day: Date;
+  events: CalendarEvent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AgendaView: React.FC<AgendaViewProps> = ({
+  events,
+  initialLoading,
+  loadingMore,
+  hasMore,
+  timeZone,
+  onEventClick,
+  onLoadMore
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const today = startOfDayIn(new Date(), timeZone);
+
+  // Load the next month whenever the end of the list scrolls into view. The
+  // observer is recreated after each load, so it fires again right away if
+  // the list is still too short to fill the screen.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
+
+  // Group events by the day they start on; events already in progress are listed under today
+  const days = events.reduce<AgendaDay[]>((groups, event) => {
+    const { first } = getEventDayRange(event, timeZone);
+    const day = first.getTime() < today.getTime() ? today : first;
+    const last = groups[groups.length - 1];
+    if (last && last.day.getTime() === day.getTime()) {
+      last.events.push(event);
+    } else {
+      groups.push({ day, events: [event] });
+    }
+    return groups;
+  }, []);
+
+  const formatDay = (day: Date) => {
+    const daysFromToday = Math.round((day.getTime() - today.getTime()) / DAY_MS);
+    const date = day.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+    if (daysFromToday === 0) return `Today · ${date}`;
+    if (daysFromToday === 1) return `Tomorrow · ${date}`;
+    return date;
+  };
+
+  const formatTime = (dateString: string) => {
+    return formatInTimeZone(parseEventDate(dateString), timeZone, {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const formatEventTime = (event: CalendarEvent) => {
+    if (isAllDayEvent(event)) return 'All day';
+    return `${formatTime(event.start)} - ${formatTime(event.end)}`;
+  };
+
+  return (
+    <div className="bg-[#1a1a2e] bg-opacity-50 rounded-2xl p-4 sm:p-6 backdrop-blur-sm border border-white border-opacity-10">
+      {days.length === 0 && !initialLoading && !loadingMore && (
+        <p className="text-center text-[#c9c9d1] py-12">No upcoming events</p>
+      )}
+
+      <div className="space-y-6">
+        {days.map(({ day, events: dayEvents }) => (
+          <section key={day.getTime()}>
+            <h2 className={`text-sm font-semibold uppercase tracking-wide mb-2 ${
+              day.getTime() === today.getTime() ? 'text-[#886FFF]' : 'text-[#c9c9d1]'
+            }`}>
+              {formatDay(day)}
+            </h2>
+
+            <div className="space-y-2">
+              {dayEvents.map(event => (
+                <button
+                  key={`${event.sourceId}:${event.id}`}
+                  onClick={() => onEventClick(event)}
+                  className="w-full text-left p-3 bg-[#886FFF] bg-opacity-10 border border-[#886FFF] border-opacity-20 rounded-lg hover:bg-opacity-20 transition-colors duration-200 flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4"
+                >
+                  <span className="text-sm text-[#c9c9d1] sm:w-40 flex-shrink-0">{formatEventTime(event)}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium text-white truncate">{event.title}</span>
+                    {event.location && (
+                      <span className="flex items-center gap-1 text-xs text-[#c9c9d1] truncate">
+                        <MapPin className="w-3 h-3 flex-shrink-0" />
+                        {event.location}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      <div ref={sentinelRef} />
+
+      {(initialLoading || loadingMore) && (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#886FFF]"></div>
+        </div>
+      )}
+
+      {!hasMore && days.length > 0 && (
+        <p className="text-center text-sm text-[#c9c9d1] pt-6">No more events scheduled</p>
+      )}
+    </div>
+  );
+};
+
+export default AgendaView;
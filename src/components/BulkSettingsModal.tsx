@@ -1,15 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, AlertCircle, Search } from 'lucide-react';
+import { X, AlertCircle, Search, ChevronDown, Clock } from 'lucide-react';
 import { useClickOutside } from '../hooks/useClickOutside';
 import { CalendarEvent } from '../types/calendar';
 import notificationService from '../services/notificationService';
 import type { UserPreferences } from '../services/notificationService';
-
-type ExtendedCalendarEvent = CalendarEvent & {
-  extendedProps?: {
-    eventType?: string;
-  };
-};
+import eventRemindersService from '../services/eventRemindersService';
+import type { EventReminder } from '../services/eventRemindersService';
+import { useFavorites } from '../hooks/useFavorites';
+import { getDisplayTimeZone, getSupportedTimeZones, setDisplayTimeZone } from '../utils/timezone';
+import CalendarFeedSection from './CalendarFeedSection';
+import DevicesSection from './DevicesSection';
+import ReminderOffsetsEditor from './ReminderOffsetsEditor';
+import QuietHoursSection from './QuietHoursSection';
+import DigestSection from './DigestSection';
+import { ChannelReminderOverride, DEFAULT_REMINDER_OFFSETS } from '../utils/reminders';
+import { DEFAULT_QUIET_HOURS } from '../utils/quietHours';
+import { DEFAULT_DIGEST_SETTINGS } from '../utils/digest';
+import { createEventTypeResolver } from '../utils/eventTypes';
 
 interface BulkSettingsModalProps {
   onClose: () => void;
@@ -20,6 +27,8 @@ interface BulkSettingsModalProps {
 interface BulkSettingsState {
   preferences: UserPreferences;
   eventPreferences: { [key: string]: boolean };
+  // Event types with their own reminder offsets, for one channel or both
+  reminderOverrides: { [key: string]: ChannelReminderOverride };
 }
 
 const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }) => {
@@ -27,6 +36,7 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
   const modalId = React.useId();
   const emailId = `email-${modalId}`;
   const notifyEmailId = `notify-email-${modalId}`;
+  const timezoneId = `timezone-${modalId}`;
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
@@ -39,14 +49,42 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
       notifyEmail: true,
       notifyBrowser: false, // Default to false, will be updated after loading settings
       notifyAllEvents: true,
-      email1hBefore: true,
-      email10mBefore: true,
-      browser1hBefore: true,
-      browser10mBefore: true,
+      emailReminderOffsets: DEFAULT_REMINDER_OFFSETS,
+      browserReminderOffsets: DEFAULT_REMINDER_OFFSETS,
       notifyNewEvents: true,
+      timezone: getDisplayTimeZone(),
+      quietHours: DEFAULT_QUIET_HOURS,
+      digest: DEFAULT_DIGEST_SETTINGS,
     },
-    eventPreferences: {}
+    eventPreferences: {},
+    reminderOverrides: {}
   });
+  // Event type whose reminder settings are expanded
+  const [expandedType, setExpandedType] = useState<string | null>(null);
+  const timeZones = React.useMemo(getSupportedTimeZones, []);
+  const resolveEventType = React.useMemo(() => createEventTypeResolver(events), [events]);
+  // Digests only list events of the types notifications are enabled for
+  const isDigestEvent = React.useCallback(
+    (event: CalendarEvent) => state.eventPreferences[resolveEventType(event)] !== false,
+    [state.eventPreferences, resolveEventType]
+  );
+  const { favoriteIds } = useFavorites();
+  // Reminders set on single events, which the quiet hours preview includes
+  const [eventReminders, setEventReminders] = useState<EventReminder[]>([]);
+
+  // Reminder offsets of an event on either channel, with the settings as edited: its type's
+  // settings, where starred events always get reminders, plus the event's own reminders
+  const getReminderOffsets = React.useCallback((event: CalendarEvent): number[] => {
+    const { preferences, eventPreferences, reminderOverrides } = state;
+    const eventType = resolveEventType(event);
+    const enabled = favoriteIds.has(event.id) || (eventPreferences[eventType] ?? preferences.notifyAllEvents);
+    const override = reminderOverrides[eventType];
+    return [
+      ...(enabled && preferences.notifyEmail ? override?.email ?? preferences.emailReminderOffsets : []),
+      ...(enabled && preferences.notifyBrowser ? override?.browser ?? preferences.browserReminderOffsets : []),
+      ...eventReminders.filter(reminder => reminder.eventId === event.id).map(reminder => reminder.minutesBefore)
+    ];
+  }, [state, resolveEventType, favoriteIds, eventReminders]);
   
   const modalRef = useRef<HTMLDivElement>(null);
   useClickOutside(modalRef, onClose);
@@ -64,28 +102,12 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
       try {
         setIsLoading(true);
         
-        // Load user preferences
+        // Load user preferences. Browser reminders stay on without notification
+        // permission: they are then shown on the page instead
         const prefs = await notificationService.getPreferences();
-        
-        // Update notifyBrowser based on current permission status
-        if (typeof Notification !== 'undefined') {
-          // Only enable browser notifications if permission was previously granted
-          // and the user had it enabled in their preferences
-          prefs.notifyBrowser = prefs.notifyBrowser && Notification.permission === 'granted';
-        } else {
-          // If notifications aren't supported, make sure it's off
-          prefs.notifyBrowser = false;
-        }
 
-        // Extract unique event types from events
-        const types = new Set<string>();
-        events.forEach((event: ExtendedCalendarEvent) => {
-          if (event.extendedProps?.eventType) {
-            types.add(event.extendedProps.eventType);
-          } else if (event.title) {
-            types.add(event.title);
-          }
-        });
+        // Group events into series, so that each occurrence isn't its own type
+        const types = new Set<string>(notificationService.getUniqueEventTypes(events));
 
         // If no event types found, use some default ones
         if (types.size === 0) {
@@ -104,16 +126,21 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
         });
 
         // Override with user's saved preferences
+        const reminderOverrides: { [key: string]: ChannelReminderOverride } = {};
         eventPrefs.forEach((pref) => {
           if (eventTypesMap.hasOwnProperty(pref.event_type)) {
             eventTypesMap[pref.event_type] = pref.is_enabled;
           }
+          if (pref.reminder_override) {
+            reminderOverrides[pref.event_type] = pref.reminder_override;
+          }
         });
 
         // Update state with loaded data
         setState({
           preferences: prefs,
-          eventPreferences: eventTypesMap
+          eventPreferences: eventTypesMap,
+          reminderOverrides
         });
       } catch (error) {
         console.error('Error loading settings:', error);
@@ -126,6 +153,19 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
     loadSettings();
   }, [events]);
 
+  // The preview works without them, so failing to load them isn't reported
+  useEffect(() => {
+    let cancelled = false;
+    eventRemindersService.getAllReminders()
+      .then(reminders => {
+        if (!cancelled) setEventReminders(reminders);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Show welcome notification
   const showWelcomeNotification = () => {
     try {
@@ -214,9 +254,8 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
       return true; // Skip validation if browser notifications are off
     }
     
-    const hasReminderEnabled = prefs.browser1hBefore || prefs.browser10mBefore;
-    if (!hasReminderEnabled) {
-      setBrowserReminderError('Please enable at least one reminder time');
+    if (prefs.browserReminderOffsets.length === 0) {
+      setBrowserReminderError('Please add at least one reminder time');
       return false;
     }
     
@@ -233,16 +272,14 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
     }
     
     // Only validate email reminders if email notifications are enabled
-    const isEmailRemindersValid = !prefs.notifyEmail || 
-      (prefs.email1hBefore || prefs.email10mBefore);
+    const isEmailRemindersValid = !prefs.notifyEmail || prefs.emailReminderOffsets.length > 0;
     
     // Validate browser reminders if browser notifications are enabled
-    const isBrowserRemindersValid = !prefs.notifyBrowser || 
-      (prefs.browser1hBefore || prefs.browser10mBefore);
+    const isBrowserRemindersValid = !prefs.notifyBrowser || prefs.browserReminderOffsets.length > 0;
     
     // Update browser reminder error message if needed
     if (prefs.notifyBrowser && !isBrowserRemindersValid) {
-      setBrowserReminderError('Please enable at least one reminder time');
+      setBrowserReminderError('Please add at least one reminder time');
     } else {
       setBrowserReminderError('');
     }
@@ -251,31 +288,12 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
   };
 
   // Handle preference changes
-  const handlePreferenceChange = async (key: keyof UserPreferences, value: boolean | string) => {
-    // Prevent disabling browser notifications when permission is granted
-    if (key === 'notifyBrowser' && value === false && notificationPermission === 'granted') {
-      setBrowserReminderError('To disable browser notifications, please update your browser settings.');
-      return;
-    }
-    
+  const handlePreferenceChange = async (key: keyof UserPreferences, value: boolean | string | number[]) => {
     const newPreferences = { ...state.preferences, [key]: value };
     
-    // Special handling for notification permission
+    // Permission is only needed for system notifications; without it reminders show on the page
     if (key === 'notifyBrowser' && value === true) {
-      const hasPermission = await requestNotificationPermission();
-      if (!hasPermission) {
-        // If permission was denied, keep the toggle off
-        return; // Don't update the state if permission was denied
-      }
-      // Only update the state if permission was granted
-      setState(prev => ({
-        ...prev,
-        preferences: {
-          ...prev.preferences,
-          notifyBrowser: true
-        }
-      }));
-      return;
+      requestNotificationPermission();
     }
     
     // Handle email validation
@@ -293,7 +311,7 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
     }
     
     // Validate browser reminders if toggling browser notifications or reminder times
-    if (key === 'notifyBrowser' || key === 'browser1hBefore' || key === 'browser10mBefore') {
+    if (key === 'notifyBrowser' || key === 'browserReminderOffsets') {
       validateBrowserReminderToggles(newPreferences);
     }
     
@@ -314,6 +332,21 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
     }));
   };
 
+  // Give an event type its own reminder offsets for a channel, or null to follow the global ones again
+  const setReminderOverride = (eventType: string, channel: keyof ChannelReminderOverride, offsets: number[] | null) => {
+    setState(prev => {
+      const reminderOverrides = { ...prev.reminderOverrides };
+      const current: ChannelReminderOverride = reminderOverrides[eventType] || { email: null, browser: null };
+      const override = { ...current, [channel]: offsets };
+      if (override.email || override.browser) {
+        reminderOverrides[eventType] = override;
+      } else {
+        delete reminderOverrides[eventType];
+      }
+      return { ...prev, reminderOverrides };
+    });
+  };
+
   // Toggle all event types
   const toggleAllEventTypes = (enabled: boolean) => {
     const updatedEventPrefs = { ...state.eventPreferences };
@@ -393,33 +426,24 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
         preferencesToSave.email = state.preferences.email;
       }
       
-      // Handle browser notifications if enabled
-      if (state.preferences.notifyBrowser) {
+      // Subscribe to push where notifications are allowed; elsewhere browser reminders are shown on the page
+      if (state.preferences.notifyBrowser && notificationService.hasNotificationPermission()) {
         try {
-          // Request notification permission if not already granted
-          const permission = await notificationService.requestNotificationPermission();
-          
-          if (permission === 'granted') {
-            // Initialize push notifications with the user's email
-            await notificationService.initializePushNotifications(state.preferences.email, state.preferences.email);
-          } else {
-            // If permission was denied, disable browser notifications
-            preferencesToSave.notifyBrowser = false;
-            console.warn('Browser notification permission was not granted');
-          }
+          await notificationService.initializePushNotifications(state.preferences.email, state.preferences.email);
         } catch (error) {
           console.error('Error initializing push notifications:', error);
-          preferencesToSave.notifyBrowser = false;
         }
       }
       
       // Save preferences
       await notificationService.updatePreferences(preferencesToSave);
+      setDisplayTimeZone(preferencesToSave.timezone);
       
       // Save event preferences
       const eventPrefs = Object.entries(state.eventPreferences).map(([eventType, isEnabled]) => ({
         eventType,
-        isEnabled
+        isEnabled,
+        reminderOverride: state.reminderOverrides[eventType] || null
       }));
       
       // Send all event preferences in one request
@@ -428,15 +452,6 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
         eventPreferences: eventPrefs
       });
       
-      // Update local state with any changes (like if notifyBrowser was disabled due to permission issues)
-      setState(prev => ({
-        ...prev,
-        preferences: {
-          ...prev.preferences,
-          ...preferencesToSave
-        }
-      }));
-      
       onClose();
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -486,6 +501,31 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Display Timezone */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-white">Display Timezone</h3>
+
+            <div className="pl-4">
+              <label htmlFor={timezoneId} className="block text-sm text-gray-400 mb-2">
+                Event times in the calendar and in your reminders are shown in this timezone
+              </label>
+              <select
+                id={timezoneId}
+                name="timezone"
+                className="w-full px-4 py-2 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+                value={state.preferences.timezone}
+                onChange={(e) => handlePreferenceChange('timezone', e.target.value)}
+              >
+                {!timeZones.includes(state.preferences.timezone) && (
+                  <option value={state.preferences.timezone}>{state.preferences.timezone.replace(/_/g, ' ')}</option>
+                )}
+                {timeZones.map(timeZone => (
+                  <option key={timeZone} value={timeZone}>{timeZone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Email Notifications */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-white">Email Notifications</h3>
@@ -557,48 +597,33 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
                   </div>
 
                   {state.preferences.notifyEmail && (
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <p className="text-white font-medium">1 Hour Before</p>
-                          <p className="text-sm text-gray-400">Get notified 1 hour before events</p>
-                        </div>
-                        <label className="relative inline-flex items-center cursor-pointer">
-                          <input
-                            type="checkbox"
-                            className="sr-only peer"
-                            checked={state.preferences.email1hBefore}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => handlePreferenceChange('email1hBefore', e.target.checked)}
-                          />
-                          <div className={`w-11 h-6 rounded-full peer ${!state.preferences.email10mBefore && !state.preferences.email1hBefore && state.preferences.notifyEmail ? 'bg-red-900' : 'bg-gray-700'} peer-checked:bg-[#886FFF]`}>
-                            <div className={`absolute top-0.5 left-[2px] bg-white border border-gray-300 rounded-full h-5 w-5 transition-transform ${state.preferences.email1hBefore ? 'translate-x-5' : ''} ${!state.preferences.email10mBefore && !state.preferences.email1hBefore && state.preferences.notifyEmail ? 'border-red-500' : ''}`}></div>
-                          </div>
-                        </label>
-                      </div>
-
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <p className="text-white font-medium">10 Minutes Before</p>
-                          <p className="text-sm text-gray-400">Get notified 10 minutes before events</p>
-                        </div>
-                        <label className="relative inline-flex items-center cursor-pointer">
-                          <input
-                            type="checkbox"
-                            className="sr-only peer"
-                            checked={state.preferences.email10mBefore}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => handlePreferenceChange('email10mBefore', e.target.checked)}
-                          />
-                        <div className={`w-11 h-6 rounded-full peer ${!state.preferences.email1hBefore && !state.preferences.email10mBefore && state.preferences.notifyEmail ? 'bg-red-900' : 'bg-gray-700'} peer-checked:bg-[#886FFF]`}>
-                          <div className={`absolute top-0.5 left-[2px] bg-white border border-gray-300 rounded-full h-5 w-5 transition-transform ${state.preferences.email10mBefore ? 'translate-x-5' : ''} ${!state.preferences.email1hBefore && !state.preferences.email10mBefore && state.preferences.notifyEmail ? 'border-red-500' : ''}`}></div>
-                        </div>
-                      </label>
+                    <div className="space-y-2">
+                      <p className="text-white font-medium">Reminders</p>
+                      <p className="text-sm text-gray-400">Get an email this long before each event</p>
+                      <ReminderOffsetsEditor
+                        label="Email reminders"
+                        offsets={state.preferences.emailReminderOffsets}
+                        onChange={(offsets) => handlePreferenceChange('emailReminderOffsets', offsets)}
+                        invalid={state.preferences.emailReminderOffsets.length === 0}
+                      />
+                      {state.preferences.emailReminderOffsets.length === 0 && (
+                        <p className="text-red-400 text-sm mt-1">Please add at least one reminder time</p>
+                      )}
                     </div>
-                    
-                    {!state.preferences.email1hBefore && !state.preferences.email10mBefore && state.preferences.notifyEmail && (
-                      <p className="text-red-400 text-sm mt-1">Please enable at least one reminder time</p>
-                    )}
-                  </div>
                 )}
+
+                  <DigestSection
+                    digest={state.preferences.digest}
+                    onChange={(digest) => setState(prev => ({
+                      ...prev,
+                      preferences: { ...prev.preferences, digest }
+                    }))}
+                    displayTimeZone={state.preferences.timezone}
+                    timeZones={timeZones}
+                    events={events}
+                    isIncluded={isDigestEvent}
+                    disabled={!state.preferences.notifyEmail}
+                  />
               </div>
             </div>
           </div>
@@ -612,102 +637,56 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
                 <div>
                   <p className="text-white font-medium">Enable Browser Notifications</p>
                   <p className="text-sm text-gray-400">
-                    {notificationPermission === 'denied' 
-                      ? 'Notifications are blocked in your browser settings' 
-                      : notificationPermission === 'granted'
-                        ? 'Browser notifications are enabled'
-                        : 'Click to enable browser notifications'}
+                    {notificationPermission === 'granted'
+                      ? 'Reminders appear as system notifications'
+                      : 'Reminders appear on this page while it is open'}
                   </p>
                 </div>
-                <div className="relative">
-                  <label 
-                    className={`relative inline-flex items-center ${notificationPermission === 'denied' || notificationPermission === 'granted' ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                    title={notificationPermission === 'denied' 
-                      ? 'Notifications are blocked in browser settings' 
-                      : notificationPermission === 'granted'
-                        ? 'To disable notifications, please update your browser settings'
-                        : 'Enable browser notifications'}
-                  >
-                    <input
-                      type="checkbox"
-                      className="sr-only peer"
-                      checked={state.preferences.notifyBrowser && notificationPermission === 'granted'}
-                      onChange={(e) => {
-                        if (notificationPermission === 'denied' || notificationPermission === 'granted') return;
-                        handlePreferenceChange('notifyBrowser', e.target.checked);
-                      }}
-                      disabled={notificationPermission === 'denied' || notificationPermission === 'granted'}
-                    />
-                    <div className={`w-11 h-6 rounded-full ${notificationPermission === 'denied' || notificationPermission === 'granted' ? 'bg-gray-800' : 'bg-gray-700 peer-checked:bg-[#886FFF]'}`}>
-                      <div className={`absolute top-0.5 left-[2px] bg-white border border-gray-300 rounded-full h-5 w-5 transition-transform ${state.preferences.notifyBrowser && notificationPermission === 'granted' ? 'translate-x-5' : ''} ${notificationPermission === 'denied' || notificationPermission === 'granted' ? 'opacity-50' : ''}`}></div>
-                    </div>
-                  </label>
-                  {browserReminderError && notificationPermission === 'granted' && (
-                    <div className="absolute top-full left-0 mt-1 w-64 p-2 bg-gray-800 text-red-300 text-xs rounded shadow-lg z-10">
-                      {browserReminderError}
-                    </div>
-                  )}
-                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="sr-only peer"
+                    checked={state.preferences.notifyBrowser}
+                    onChange={(e) => handlePreferenceChange('notifyBrowser', e.target.checked)}
+                  />
+                  <div className="w-11 h-6 rounded-full bg-gray-700 peer-checked:bg-[#886FFF]">
+                    <div className={`absolute top-0.5 left-[2px] bg-white border border-gray-300 rounded-full h-5 w-5 transition-transform ${state.preferences.notifyBrowser ? 'translate-x-5' : ''}`}></div>
+                  </div>
+                </label>
               </div>
 
-              {(notificationPermission === 'denied' || notificationPermission === 'granted') && (
+              {state.preferences.notifyBrowser && notificationPermission !== 'granted' && (
                 <div className="p-3 bg-yellow-900 bg-opacity-30 rounded-lg text-yellow-100 text-sm flex items-start gap-2">
                   <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
                   <div>
                     <p className="font-medium">
-                      {notificationPermission === 'denied' 
-                        ? 'Browser notifications are blocked' 
-                        : 'Browser notifications are enabled'}
+                      {typeof Notification === 'undefined'
+                        ? 'This browser cannot show system notifications'
+                        : notificationPermission === 'denied'
+                          ? 'System notifications are blocked'
+                          : 'System notifications are not allowed yet'}
                     </p>
                     <p>
-                      {notificationPermission === 'denied'
-                        ? 'Please enable notifications in your browser settings to receive alerts.'
-                        : 'To disable notifications, please update your browser settings.'}
+                      {typeof Notification === 'undefined'
+                        ? 'Reminders are shown on this page while it is open. On iPhone and iPad, add the calendar to your Home Screen to get notifications.'
+                        : 'Reminders are shown on this page while it is open. Allow notifications in your browser settings to get them anywhere.'}
                     </p>
                   </div>
                 </div>
               )}
 
-              {state.preferences.notifyBrowser && notificationPermission !== 'denied' && (
-                <div className="space-y-3 pl-4 border-l-2 border-[#886FFF] border-opacity-30 ml-2 pl-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-white font-medium">1 Hour Before</p>
-                      <p className="text-sm text-gray-400">Get notified 1 hour before events</p>
-                    </div>
-                    <label className="relative inline-flex items-center cursor-pointer">
-                      <input
-                        type="checkbox"
-                        className="sr-only peer"
-                        checked={state.preferences.browser1hBefore}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => handlePreferenceChange('browser1hBefore', e.target.checked)}
-                        disabled={!state.preferences.notifyBrowser}
-                      />
-                      <div className={`w-11 h-6 rounded-full peer ${!state.preferences.notifyBrowser ? 'bg-gray-800' : (browserReminderError && !state.preferences.browser1hBefore && !state.preferences.browser10mBefore) ? 'bg-red-900' : 'bg-gray-700'} peer-checked:bg-[#886FFF]`}>
-                        <div className={`absolute top-0.5 left-[2px] bg-white border ${(browserReminderError && !state.preferences.browser1hBefore && !state.preferences.browser10mBefore) ? 'border-red-500' : 'border-gray-300'} rounded-full h-5 w-5 transition-transform ${state.preferences.browser1hBefore ? 'translate-x-5' : ''} ${!state.preferences.notifyBrowser ? 'opacity-50' : ''}`}></div>
-                      </div>
-                    </label>
-                  </div>
+              {state.preferences.notifyBrowser && (
+                <div className="space-y-2 pl-4 border-l-2 border-[#886FFF] border-opacity-30 ml-2 pl-4">
+                  <p className="text-white font-medium">Reminders</p>
+                  <p className="text-sm text-gray-400">Get a notification this long before each event</p>
+                  <ReminderOffsetsEditor
+                    label="Browser notification reminders"
+                    offsets={state.preferences.browserReminderOffsets}
+                    onChange={(offsets) => handlePreferenceChange('browserReminderOffsets', offsets)}
+                    disabled={!state.preferences.notifyBrowser}
+                    invalid={!!browserReminderError && state.preferences.browserReminderOffsets.length === 0}
+                  />
 
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-white font-medium">10 Minutes Before</p>
-                      <p className="text-sm text-gray-400">Get notified 10 minutes before events</p>
-                    </div>
-                    <label className="relative inline-flex items-center cursor-pointer">
-                      <input
-                        type="checkbox"
-                        className="sr-only peer"
-                        checked={state.preferences.browser10mBefore}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => handlePreferenceChange('browser10mBefore', e.target.checked)}
-                        disabled={!state.preferences.notifyBrowser}
-                      />
-                      <div className={`w-11 h-6 rounded-full peer ${!state.preferences.notifyBrowser ? 'bg-gray-800' : (browserReminderError && !state.preferences.browser1hBefore && !state.preferences.browser10mBefore) ? 'bg-red-900' : 'bg-gray-700'} peer-checked:bg-[#886FFF]`}>
-                        <div className={`absolute top-0.5 left-[2px] bg-white border ${(browserReminderError && !state.preferences.browser1hBefore && !state.preferences.browser10mBefore) ? 'border-red-500' : 'border-gray-300'} rounded-full h-5 w-5 transition-transform ${state.preferences.browser10mBefore ? 'translate-x-5' : ''} ${!state.preferences.notifyBrowser ? 'opacity-50' : ''}`}></div>
-                      </div>
-                    </label>
-                  </div>
-                  
                   {browserReminderError && state.preferences.notifyBrowser && (
                     <p className="text-red-400 text-sm mt-1">{browserReminderError}</p>
                   )}
@@ -716,6 +695,18 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
             </div>
           </div>
 
+          {/* Quiet Hours */}
+          <QuietHoursSection
+            quietHours={state.preferences.quietHours}
+            onChange={(quietHours) => setState(prev => ({
+              ...prev,
+              preferences: { ...prev.preferences, quietHours }
+            }))}
+            timeZone={state.preferences.timezone}
+            events={events}
+            getReminderOffsets={getReminderOffsets}
+          />
+
           {/* Event Type Notifications */}
           <div className="space-y-4">
             <div className="flex justify-between items-center">
@@ -759,22 +750,76 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
               <div className="max-h-60 overflow-y-auto">
                 {filteredEventTypes.length > 0 ? (
                   <ul className="divide-y divide-white divide-opacity-10">
-                    {filteredEventTypes.map(([eventType, isEnabled]) => (
-                      <li key={eventType} className="px-4 py-3 hover:bg-[#2a2a3a] transition-colors">
-                        <div className="flex items-center justify-between">
-                          <span className="text-white">{eventType}</span>
-                          <label className="relative inline-flex items-center cursor-pointer">
-                            <input
-                              type="checkbox"
-                              className="sr-only peer"
-                              checked={isEnabled}
-                              onChange={(e) => handleEventPreferenceChange(eventType, e.target.checked)}
-                            />
-                            <div className="w-9 h-5 bg-gray-700 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-[#886FFF]"></div>
-                          </label>
-                        </div>
-                      </li>
-                    ))}
+                    {filteredEventTypes.map(([eventType, isEnabled]) => {
+                      const override = state.reminderOverrides[eventType];
+                      const expanded = expandedType === eventType;
+                      return (
+                        <li key={eventType} className="px-4 py-3 hover:bg-[#2a2a3a] transition-colors">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-white flex-1 min-w-0 truncate">{eventType}</span>
+                            <button
+                              onClick={() => setExpandedType(expanded ? null : eventType)}
+                              aria-expanded={expanded}
+                              className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs transition-colors hover:bg-white hover:bg-opacity-10 ${
+                                override ? 'text-[#886FFF]' : 'text-gray-400'
+                              }`}
+                              title="Reminder times for this event type"
+                            >
+                              <Clock className="w-3 h-3" />
+                              {override ? 'Custom reminders' : 'Default reminders'}
+                              <ChevronDown className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                            </button>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                              <input
+                                type="checkbox"
+                                className="sr-only peer"
+                                checked={isEnabled}
+                                onChange={(e) => handleEventPreferenceChange(eventType, e.target.checked)}
+                              />
+                              <div className="w-9 h-5 bg-gray-700 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-[#886FFF]"></div>
+                            </label>
+                          </div>
+
+                          {expanded && (
+                            <div className="mt-3 space-y-3 pl-3 border-l-2 border-[#886FFF] border-opacity-30">
+                              {([
+                                ['email', 'Email', 'email reminders', state.preferences.emailReminderOffsets],
+                                ['browser', 'Browser notifications', 'browser notification reminders', state.preferences.browserReminderOffsets]
+                              ] as const).map(([channel, title, description, globalOffsets]) => {
+                                const offsets = override ? override[channel] : null;
+                                return (
+                                  <div key={channel} className="space-y-1">
+                                    <label className="flex items-center gap-2 text-sm text-white cursor-pointer">
+                                      <input
+                                        type="checkbox"
+                                        className="w-4 h-4 text-[#886FFF] rounded focus:ring-[#886FFF] border-gray-600"
+                                        checked={offsets !== null}
+                                        onChange={(e) => setReminderOverride(eventType, channel, e.target.checked ? globalOffsets : null)}
+                                      />
+                                      Different {description} for {eventType}
+                                    </label>
+                                    {offsets !== null ? (
+                                      <ReminderOffsetsEditor
+                                        label={`${title} reminders for ${eventType}`}
+                                        offsets={offsets}
+                                        onChange={(next) => setReminderOverride(eventType, channel, next)}
+                                      />
+                                    ) : (
+                                      <p className="text-sm text-gray-400">Uses your {description} above.</p>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                              {override && (
+                                <p className="text-xs text-gray-500">
+                                  Remove every reminder of a channel to turn it off for this event type.
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
                   </ul>
                 ) : (
                   <div className="p-4 text-center text-gray-400">
@@ -807,6 +852,12 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
             </div>
           </div>
 
+          {/* Push Devices */}
+          <DevicesSection />
+
+          {/* Calendar Subscription */}
+          <CalendarFeedSection />
+
           {/* Footer */}
           <div className="p-6 pt-4 border-t border-white border-opacity-10 flex-shrink-0 flex justify-end space-x-3">
             <button
@@ -821,7 +872,7 @@ const BulkSettingsModal: React.FC<BulkSettingsModalProps> = ({ onClose, events }
               disabled={
                 isSaving || 
                 (state.preferences.notifyEmail && (!state.preferences.email.trim() || !!emailError)) ||
-                (state.preferences.notifyBrowser && !state.preferences.browser1hBefore && !state.preferences.browser10mBefore)
+                (state.preferences.notifyBrowser && state.preferences.browserReminderOffsets.length === 0)
               }
               className={`px-6 py-2 text-white rounded-lg transition-colors flex items-center gap-2 ${
                 isSaving || (state.preferences.notifyEmail && !state.preferences.email.trim() || !!emailError)
@@ -0,0 +1,68 @@
+import React from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { CalendarFetchError } from '../types/calendar';
+import { getCalendarErrorMessage } from '../utils/calendarErrors';
+
+interface CalendarErrorBannerProps {
+  errors: CalendarFetchError[];
+  // Whether every source failed (as opposed to only some partner calendars)
+  allFailed: boolean;
+  lastUpdated: number | null;
+  retrying: boolean;
+  onRetry: () => void;
+}
+
+const CalendarErrorBanner: React.FC<CalendarErrorBannerProps> = ({
+  errors,
+  allFailed,
+  lastUpdated,
+  retrying,
+  onRetry
+}) => {
+  if (errors.length === 0) return null;
+
+  const formatLastUpdated = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  // Sources are registered with the main calendar first, so its error wins
+  const [primary] = errors;
+
+  return (
+    <div
+      role="alert"
+      className="mb-4 p-4 bg-red-900 bg-opacity-30 border border-red-500 border-opacity-40 rounded-lg text-red-100 text-sm flex flex-col sm:flex-row sm:items-center gap-3"
+    >
+      <AlertCircle className="w-5 h-5 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="font-medium">
+          {allFailed
+            ? getCalendarErrorMessage(primary.kind)
+            : `${errors.length} calendar ${errors.length === 1 ? 'source' : 'sources'} could not be loaded. ${getCalendarErrorMessage(primary.kind)}`}
+        </p>
+        {allFailed && (
+          <p className="text-red-200 text-opacity-80">
+            {lastUpdated
+              ? `Showing events last updated ${formatLastUpdated(lastUpdated)}.`
+              : 'No saved events are available for this month yet.'}
+          </p>
+        )}
+      </div>
+      <button
+        onClick={onRetry}
+        disabled={retrying}
+        className="px-4 py-2 bg-red-500 bg-opacity-30 hover:bg-opacity-50 rounded-lg font-medium transition-colors duration-200 flex items-center gap-2 self-start sm:self-auto disabled:opacity-50"
+      >
+        <RefreshCw className={`w-4 h-4 ${retrying ? 'animate-spin' : ''}`} />
+        Retry
+      </button>
+    </div>
+  );
+};
+
+export default CalendarErrorBanner;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Copy, RefreshCw, Rss } from 'lucide-react';
+import calendarFeedService from '../services/calendarFeedService';
+import type { CalendarFeed } from '../services/calendarFeedService';
+import { getWebcalUrl } from '../utils/calendarExport';
+
+// How long the "Copied" confirmation stays visible
+const COPIED_RESET_MS = 2000;
+
+const CalendarFeedSection: React.FC = () => {
+  const feedUrlId = `calendar-feed-${React.useId()}`;
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    calendarFeedService.getFeed()
+      .then(result => {
+        if (!cancelled) setFeed(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your calendar feed. Please try again later.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+    } catch (copyError) {
+      // Clipboard access can be blocked; select the URL so it can be copied by hand
+      console.warn('Could not copy the calendar feed URL:', copyError);
+      inputRef.current?.select();
+    }
+  };
+
+  const regenerate = async () => {
+    const confirmed = window.confirm(
+      'Regenerate your feed URL? Calendar apps subscribed to the current URL will stop receiving updates.'
+    );
+    if (!confirmed) return;
+
+    try {
+      setIsRegenerating(true);
+      setError('');
+      setFeed(await calendarFeedService.regenerateToken());
+      setCopied(false);
+    } catch {
+      setError('Could not regenerate your feed URL. Please try again.');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-white">Calendar Subscription</h3>
+
+      <div className="pl-4 space-y-3">
+        <label htmlFor={feedUrlId} className="block text-sm text-gray-400">
+          Subscribe to this URL from Google Calendar, Outlook or Apple Calendar to get the event types
+          you have enabled below. Changes to your selection apply to the feed once saved.
+        </label>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading feed URL...</p>
+        ) : feed && (
+          <>
+            <div className="flex gap-2">
+              <input
+                ref={inputRef}
+                id={feedUrlId}
+                type="text"
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-4 py-2 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white text-sm font-mono focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+              />
+              <button
+                onClick={copyUrl}
+                className="px-3 py-2 bg-[#886FFF] hover:bg-[#ae7aff] rounded-lg text-white text-sm transition-colors flex items-center gap-2"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <a
+                href={getWebcalUrl(feed.url)}
+                className="flex items-center gap-2 text-[#886FFF] hover:text-[#ae7aff]"
+              >
+                <Rss className="w-4 h-4" />
+                Open in calendar app
+              </a>
+              <button
+                onClick={regenerate}
+                disabled={isRegenerating}
+                className="flex items-center gap-2 px-3 py-1 text-gray-300 hover:text-white hover:bg-white hover:bg-opacity-10 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+                Regenerate URL
+              </button>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Keep this URL private: anyone who has it can see your feed. Regenerate it if it was shared by mistake.
+            </p>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedSection;
@@ -1,10 +1,18 @@
 import React from 'react';
 import { CalendarEvent } from '../types/calendar';
+import { eventOccursOnDay, isSpanningEvent, layoutWeekSegments } from '../utils/eventLayout';
+
+// Number of event rows (bars plus chips) shown per day before "+N more"
+const MAX_VISIBLE_ROWS = 2;
+// Height of one event row in pixels (h-5 bar plus gap)
+const ROW_HEIGHT = 24;
 
 interface CalendarGridProps {
   currentDate: Date;
   events: CalendarEvent[];
   loading: boolean;
+  // Timezone timed events are placed in
+  timeZone: string;
   onEventClick: (event: CalendarEvent) => void;
   onDayClick: (date: Date) => void;
 }
@@ -13,6 +21,7 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
   currentDate,
   events,
   loading,
+  timeZone,
   onEventClick,
   onDayClick
 }) => {
@@ -40,16 +49,14 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
     current.setDate(current.getDate() + 1);
   }
 
+  const weeks: Date[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+
   const getEventsForDay = (date: Date) => {
-    return events.filter(event => {
-      const eventDate = new Date(event.start);
-      // Check if the event date matches the current date (ignoring time)
-      return (
-        eventDate.getDate() === date.getDate() &&
-        eventDate.getMonth() === date.getMonth() &&
-        eventDate.getFullYear() === date.getFullYear()
-      );
-    });
+    // Multi-day events appear on every day they cover, not only on their start date
+    return events.filter(event => eventOccursOnDay(event, date, timeZone));
   };
 
   const isToday = (date: Date) => {
@@ -79,48 +86,91 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
         ))}
       </div>
 
-      {/* Calendar grid */}
-      <div className="grid grid-cols-7 gap-4">
-        {days.map((date, index) => {
-          const dayEvents = getEventsForDay(date);
-          const visibleEvents = dayEvents.slice(0, 2);
-          const hasMoreEvents = dayEvents.length > 2;
+      {/* Calendar grid, one row per week so multi-day events can span across days */}
+      <div className="space-y-4">
+        {weeks.map((week, weekIndex) => {
+          const segments = layoutWeekSegments(week, events, timeZone);
+          const visibleSegments = segments.filter(segment => segment.lane < MAX_VISIBLE_ROWS);
+          const lanesInWeek = visibleSegments.reduce((max, segment) => Math.max(max, segment.lane + 1), 0);
 
           return (
-            <div
-              key={index}
-              className={`h-32 p-2 rounded-lg cursor-pointer transition-all duration-200 hover:bg-[#886FFF] hover:bg-opacity-10 border border-transparent hover:border-[#886FFF] hover:border-opacity-30 ${
-                !isCurrentMonth(date) ? 'opacity-40' : ''
-              }`}
-              onClick={() => onDayClick(date)}
-            >
-              <div className={`text-sm font-medium mb-2 ${
-                isToday(date) 
-                  ? 'bg-[#886FFF] text-white rounded-full w-6 h-6 flex items-center justify-center' 
-                  : ''
-              }`}>
-                {date.getDate()}
-              </div>
-              
-              <div className="space-y-1">
-                {visibleEvents.map((event, eventIndex) => (
+            <div key={weekIndex} className="relative grid grid-cols-7 gap-4">
+              {week.map((date, dayIndex) => {
+                const dayEvents = getEventsForDay(date);
+                const barsOnDay = visibleSegments.filter(segment =>
+                  dayIndex >= segment.startColumn && dayIndex < segment.startColumn + segment.span
+                ).length;
+                const singleDayEvents = dayEvents.filter(event => !isSpanningEvent(event, timeZone));
+                const visibleEvents = singleDayEvents.slice(0, Math.max(0, MAX_VISIBLE_ROWS - lanesInWeek));
+                const hiddenCount = dayEvents.length - barsOnDay - visibleEvents.length;
+
+                return (
+                  <div
+                    key={dayIndex}
+                    className={`h-32 p-2 rounded-lg cursor-pointer transition-all duration-200 hover:bg-[#886FFF] hover:bg-opacity-10 border border-transparent hover:border-[#886FFF] hover:border-opacity-30 ${
+                      !isCurrentMonth(date) ? 'opacity-40' : ''
+                    }`}
+                    onClick={() => onDayClick(date)}
+                  >
+                    <div className={`text-sm font-medium mb-2 h-6 flex items-center ${
+                      isToday(date)
+                        ? 'bg-[#886FFF] text-white rounded-full w-6 justify-center'
+                        : ''
+                    }`}>
+                      {date.getDate()}
+                    </div>
+
+                    {/* Room for the spanning bars drawn over this row */}
+                    <div style={{ height: lanesInWeek * ROW_HEIGHT }} />
+
+                    <div className="space-y-1">
+                      {visibleEvents.map((event, eventIndex) => (
+                        <div
+                          key={eventIndex}
+                          className="text-xs p-1 h-5 leading-3 bg-[#886FFF] bg-opacity-20 rounded truncate hover:bg-opacity-30 transition-colors duration-200"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onEventClick(event);
+                          }}
+                        >
+                          {event.title}
+                        </div>
+                      ))}
+
+                      {hiddenCount > 0 && (
+                        <div className="text-xs text-[#886FFF] font-medium">
+                          +{hiddenCount} more
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Multi-day and all-day events */}
+              <div
+                className="absolute inset-x-0 top-10 grid grid-cols-7 gap-x-4 gap-y-1 pointer-events-none"
+                style={{ gridAutoRows: ROW_HEIGHT - 4 }}
+              >
+                {visibleSegments.map(segment => (
                   <div
-                    key={eventIndex}
-                    className="text-xs p-1 bg-[#886FFF] bg-opacity-20 rounded truncate hover:bg-opacity-30 transition-colors duration-200"
+                    key={`${segment.event.sourceId}:${segment.event.id}`}
+                    className={`text-xs px-2 h-5 leading-5 bg-[#886FFF] bg-opacity-40 truncate cursor-pointer pointer-events-auto hover:bg-opacity-60 transition-colors duration-200 mx-2 ${
+                      segment.continuesBefore ? 'rounded-l-none -ml-2' : 'rounded-l'
+                    } ${segment.continuesAfter ? 'rounded-r-none -mr-2' : 'rounded-r'}`}
+                    style={{
+                      gridColumn: `${segment.startColumn + 1} / span ${segment.span}`,
+                      gridRow: segment.lane + 1
+                    }}
+                    title={segment.event.title}
                     onClick={(e) => {
                       e.stopPropagation();
-                      onEventClick(event);
+                      onEventClick(segment.event);
                     }}
                   >
-                    {event.title}
+                    {segment.event.title}
                   </div>
                 ))}
-                
-                {hasMoreEvents && (
-                  <div className="text-xs text-[#886FFF] font-medium">
-                    +{dayEvents.length - 2} more
-                  </div>
-                )}
               </div>
             </div>
           );
@@ -3,10 +3,15 @@ import { X, Clock } from 'lucide-react';
 import { CalendarEvent } from '../types/calendar';
 import { SafeHtmlContent } from '../utils/htmlUtils';
 import { useClickOutside } from '../hooks/useClickOutside';
+import { getEventDayRange, isAllDayEvent, parseEventDate } from '../utils/eventLayout';
+import { formatInTimeZone } from '../utils/timezone';
+import FavoriteButton from './FavoriteButton';
 
 interface DayEventsModalProps {
   date: Date;
   events: CalendarEvent[];
+  // Timezone event times are shown in
+  timeZone: string;
   onClose: () => void;
   onEventClick: (event: CalendarEvent) => void;
 }
@@ -14,11 +19,12 @@ interface DayEventsModalProps {
 const DayEventsModal: React.FC<DayEventsModalProps> = ({ 
   date, 
   events, 
+  timeZone,
   onClose, 
   onEventClick 
 }) => {
   const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', { 
+    return date.toLocaleDateString(undefined, { 
       weekday: 'long', 
       year: 'numeric', 
       month: 'long', 
@@ -27,14 +33,29 @@ const DayEventsModal: React.FC<DayEventsModalProps> = ({
   };
 
   const formatTime = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
+    return formatInTimeZone(parseEventDate(dateString), timeZone, {
+      hour: 'numeric',
+      minute: '2-digit'
     });
   };
 
+  const formatShortDate = (date: Date) => {
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  };
+
+  const formatEventTime = (event: CalendarEvent) => {
+    const { first, last } = getEventDayRange(event, timeZone);
+    const isMultiDay = last.getTime() > first.getTime();
+
+    if (isAllDayEvent(event)) {
+      return isMultiDay ? `All day, ${formatShortDate(first)} - ${formatShortDate(last)}` : 'All day';
+    }
+    if (isMultiDay) {
+      return `${formatShortDate(first)} ${formatTime(event.start)} - ${formatShortDate(last)} ${formatTime(event.end)}`;
+    }
+    return `${formatTime(event.start)} - ${formatTime(event.end)}`;
+  };
+
   const modalRef = useRef<HTMLDivElement>(null);
   
   // Close the modal when clicking outside
@@ -74,10 +95,13 @@ const DayEventsModal: React.FC<DayEventsModalProps> = ({
                     onEventClick(event);
                   }}
                 >
-                  <h3 className="font-semibold text-white mb-2 break-words whitespace-normal">{event.title}</h3>
+                  <div className="flex items-start justify-between gap-2">
+                    <h3 className="font-semibold text-white mb-2 break-words whitespace-normal">{event.title}</h3>
+                    <FavoriteButton event={event} className="-mt-2 -mr-2" />
+                  </div>
                   <div className="flex items-center gap-2 text-[#886FFF] text-sm">
                     <Clock className="w-4 h-4" />
-                    <span>{formatTime(event.start)} - {formatTime(event.end)}</span>
+                    <span>{formatEventTime(event)}</span>
                   </div>
                   {event.description && (
                     <div className="text-[#c9c9d1] text-sm mt-2 line-clamp-2">
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Check, Monitor, Pencil, RefreshCw, Smartphone, Trash2, X } from 'lucide-react';
+import pushSubscriptionsService, { SUBSCRIPTION_REFRESHED_MESSAGE } from '../services/pushSubscriptionsService';
+import type { PushDevice, SubscriptionRefresh } from '../services/pushSubscriptionsService';
+import { describeUserAgent, parseUserAgent } from '../utils/userAgent';
+
+const MOBILE_SYSTEMS = ['iOS', 'Android'];
+
+const formatDate = (value: string | null, withTime = false): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    ...(withTime ? { hour: 'numeric', minute: '2-digit' } : {})
+  });
+};
+
+// Browsers that receive push notifications for the user, with rename and revoke
+const DevicesSection: React.FC = () => {
+  const sectionId = React.useId();
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refresh, setRefresh] = useState<SubscriptionRefresh | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      Promise.all([pushSubscriptionsService.getDevices(), pushSubscriptionsService.getCurrentEndpoint()])
+        .then(([result, endpoint]) => {
+          if (cancelled) return;
+          setDevices(result);
+          setCurrentEndpoint(endpoint);
+          setError('');
+        })
+        .catch(() => {
+          if (!cancelled) setError('Could not load your devices. Please try again later.');
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    load();
+    pushSubscriptionsService.getLastRefresh().then(result => {
+      if (!cancelled) setRefresh(result);
+    });
+
+    // The service worker replaced this browser's subscription while the settings were open
+    const handleMessage = (message: MessageEvent) => {
+      if (message.data?.type !== SUBSCRIPTION_REFRESHED_MESSAGE) return;
+      setRefresh(message.data.refresh || null);
+      load();
+    };
+    const serviceWorker = 'serviceWorker' in navigator ? navigator.serviceWorker : null;
+    serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      cancelled = true;
+      serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  const startRename = (device: PushDevice) => {
+    setEditingId(device.id);
+    setDraftName(device.name || describeUserAgent(device.userAgent));
+    setError('');
+  };
+
+  const saveName = async (device: PushDevice) => {
+    try {
+      setBusyId(device.id);
+      setError('');
+      const updated = await pushSubscriptionsService.renameDevice(device.id, draftName);
+      setDevices(current => current.map(item => (item.id === device.id ? updated : item)));
+      setEditingId(null);
+    } catch {
+      setError('Could not rename the device. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revoke = async (device: PushDevice) => {
+    const isCurrent = device.endpoint === currentEndpoint;
+    const confirmed = window.confirm(isCurrent
+      ? 'Stop push notifications in this browser? You can turn them on again in these settings.'
+      : `Stop push notifications to ${device.name || describeUserAgent(device.userAgent)}?`);
+    if (!confirmed) return;
+
+    try {
+      setBusyId(device.id);
+      setError('');
+      await pushSubscriptionsService.revokeDevice(device);
+      setDevices(current => current.filter(item => item.id !== device.id));
+      if (isCurrent) setCurrentEndpoint(null);
+    } catch {
+      setError('Could not remove the device. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-white">Devices</h3>
+
+      <div className="pl-4 space-y-3">
+        <p className="text-sm text-gray-400">
+          Browsers that receive your push notifications. Remove the ones you no longer use.
+        </p>
+
+        {refresh && (refresh.ok ? (
+          <p className="flex items-center gap-2 text-sm text-[#c9c9d1]">
+            <RefreshCw className="w-4 h-4 text-[#886FFF] flex-shrink-0" />
+            Subscription refreshed automatically on {formatDate(refresh.at, true)}.
+          </p>
+        ) : (
+          <p className="flex items-start gap-2 text-sm text-yellow-100">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            This browser's push subscription expired on {formatDate(refresh.at, true)} and could not be renewed.
+            Save your settings with browser notifications on to subscribe again.
+          </p>
+        ))}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading devices...</p>
+        ) : devices.length === 0 && !error ? (
+          <p className="text-sm text-gray-400">No browser is set up for push notifications yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {devices.map(device => {
+              const { os } = parseUserAgent(device.userAgent || '');
+              const Icon = os && MOBILE_SYSTEMS.includes(os) ? Smartphone : Monitor;
+              const added = formatDate(device.createdAt);
+              const lastDelivery = formatDate(device.lastSuccessAt, true);
+              const nameId = `device-name-${sectionId}-${device.id}`;
+              const isBusy = busyId === device.id;
+
+              return (
+                <li
+                  key={device.id}
+                  className="flex items-start gap-3 p-3 bg-[#2a2a3a] rounded-lg"
+                >
+                  <Icon className="w-5 h-5 mt-0.5 text-[#886FFF] flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    {editingId === device.id ? (
+                      <div className="flex items-center gap-2">
+                        <label htmlFor={nameId} className="sr-only">Device name</label>
+                        <input
+                          id={nameId}
+                          type="text"
+                          value={draftName}
+                          maxLength={60}
+                          autoFocus
+                          onChange={(e) => setDraftName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveName(device);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="flex-1 min-w-0 px-3 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+                        />
+                        <button
+                          onClick={() => saveName(device)}
+                          disabled={isBusy}
+                          className="p-1 rounded-lg text-[#c9c9d1] hover:text-white hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+                          aria-label="Save name"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="p-1 rounded-lg text-[#c9c9d1] hover:text-white hover:bg-white hover:bg-opacity-10"
+                          aria-label="Cancel renaming"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-white font-medium truncate">
+                        {device.name || describeUserAgent(device.userAgent)}
+                        {device.endpoint === currentEndpoint && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-[#886FFF] bg-opacity-20 text-[#c9c9d1]">
+                            This browser
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400">
+                      {device.name && `${describeUserAgent(device.userAgent)} · `}
+                      {added ? `Added ${added}` : 'Added on an unknown date'}
+                      {' · '}
+                      {lastDelivery ? `Last notification ${lastDelivery}` : 'No notification delivered yet'}
+                    </p>
+                  </div>
+
+                  {editingId !== device.id && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => startRename(device)}
+                        disabled={isBusy}
+                        className="p-1 rounded-lg text-[#c9c9d1] hover:text-white hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+                        aria-label="Rename device"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => revoke(device)}
+                        disabled={isBusy}
+                        className="p-1 rounded-lg text-[#c9c9d1] hover:text-red-400 hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+                        aria-label="Remove device"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DevicesSection;
@@ -0,0 +1,175 @@
+import React, { useMemo } from 'react';
+import { Mail } from 'lucide-react';
+import { CalendarEvent } from '../types/calendar';
+import { DigestFrequency, DigestSettings, buildDigestPreview, getDigestTimeZone } from '../utils/digest';
+import { isAllDayEvent, parseEventDate } from '../utils/eventLayout';
+import { formatInTimeZone, getWeekdayNames } from '../utils/timezone';
+
+interface DigestSectionProps {
+  digest: DigestSettings;
+  onChange: (digest: DigestSettings) => void;
+  // Timezone used when the digest doesn't have its own
+  displayTimeZone: string;
+  timeZones: string[];
+  // Events the preview is computed for, and whether their type is enabled
+  events: CalendarEvent[];
+  isIncluded: (event: CalendarEvent) => boolean;
+  // Digests are emails, so they need email notifications turned on
+  disabled?: boolean;
+}
+
+// How many events the preview lists
+const PREVIEW_LIMIT = 5;
+
+const FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily, for the day ahead',
+  weekly: 'Weekly, for the week ahead'
+};
+
+const WEEKDAYS = getWeekdayNames('long');
+
+const DigestSection: React.FC<DigestSectionProps> = ({
+  digest,
+  onChange,
+  displayTimeZone,
+  timeZones,
+  events,
+  isIncluded,
+  disabled = false
+}) => {
+  const sectionId = React.useId();
+  const frequencyId = `digest-frequency-${sectionId}`;
+  const timeId = `digest-time-${sectionId}`;
+  const weekdayId = `digest-weekday-${sectionId}`;
+  const timezoneId = `digest-timezone-${sectionId}`;
+  const timeZone = getDigestTimeZone(digest, displayTimeZone);
+
+  const preview = useMemo(
+    () => buildDigestPreview(events, digest, timeZone, isIncluded),
+    [events, digest, timeZone, isIncluded]
+  );
+
+  const update = (changes: Partial<DigestSettings>) => onChange({ ...digest, ...changes });
+
+  const formatEventTime = (event: CalendarEvent) => {
+    const start = parseEventDate(event.start);
+    return isAllDayEvent(event)
+      ? `${start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}, all day`
+      : formatInTimeZone(start, timeZone, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+  };
+
+  const inputClassName = 'px-3 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#886FFF] focus:border-transparent disabled:opacity-50';
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor={frequencyId} className="text-white font-medium">Email Digest</label>
+        <p className="text-sm text-gray-400">
+          {disabled
+            ? 'Turn on email notifications to get a digest'
+            : 'One email listing the upcoming events of the types you follow'}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-white">
+        <select
+          id={frequencyId}
+          value={digest.frequency}
+          disabled={disabled}
+          onChange={(e) => update({ frequency: e.target.value as DigestFrequency })}
+          className={inputClassName}
+        >
+          {(Object.keys(FREQUENCY_LABELS) as DigestFrequency[]).map(frequency => (
+            <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+          ))}
+        </select>
+
+        {digest.frequency === 'weekly' && (
+          <>
+            <label htmlFor={weekdayId}>on</label>
+            <select
+              id={weekdayId}
+              value={digest.weekday}
+              disabled={disabled}
+              onChange={(e) => update({ weekday: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {WEEKDAYS.map((name, day) => (
+                <option key={day} value={day}>{name}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {digest.frequency !== 'off' && (
+          <>
+            <label htmlFor={timeId}>at</label>
+            <input
+              id={timeId}
+              type="time"
+              value={digest.time}
+              disabled={disabled}
+              onChange={(e) => e.target.value && update({ time: e.target.value })}
+              className={inputClassName}
+            />
+          </>
+        )}
+      </div>
+
+      {digest.frequency !== 'off' && (
+        <>
+          <div className="text-sm">
+            <label htmlFor={timezoneId} className="block text-gray-400 mb-1">Send time timezone</label>
+            <select
+              id={timezoneId}
+              value={digest.timezone}
+              disabled={disabled}
+              onChange={(e) => update({ timezone: e.target.value })}
+              className={`w-full ${inputClassName}`}
+            >
+              <option value="">Same as display timezone ({displayTimeZone.replace(/_/g, ' ')})</option>
+              {digest.timezone && !timeZones.includes(digest.timezone) && (
+                <option value={digest.timezone}>{digest.timezone.replace(/_/g, ' ')}</option>
+              )}
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+
+          {preview && !disabled && (
+            <div className="bg-[#2a2a3a] rounded-lg p-3 text-sm">
+              <p className="flex items-center gap-2 text-white font-medium mb-2">
+                <Mail className="w-4 h-4 text-[#886FFF]" />
+                Next digest: {formatInTimeZone(preview.sendAt, timeZone, {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+              </p>
+              {preview.events.length === 0 ? (
+                <p className="text-gray-400">No events of the types you follow yet.</p>
+              ) : (
+                <ul className="space-y-1 text-[#c9c9d1]">
+                  {preview.events.slice(0, PREVIEW_LIMIT).map(event => (
+                    <li key={event.id}>
+                      <span className="text-white">{event.title}</span>, {formatEventTime(event)}
+                    </li>
+                  ))}
+                  {preview.events.length > PREVIEW_LIMIT && (
+                    <li className="text-gray-400">and {preview.events.length - PREVIEW_LIMIT} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DigestSection;
@@ -1,43 +1,53 @@
 import React, { useRef } from 'react';
-import { X, Calendar, Clock } from 'lucide-react';
+import { X, Calendar, Clock, Globe } from 'lucide-react';
 import { useClickOutside } from '../hooks/useClickOutside';
 import { CalendarEvent } from '../types/calendar';
 import { SafeHtmlContent } from '../utils/htmlUtils';
+import { getEventDayRange, isAllDayEvent, parseEventDate } from '../utils/eventLayout';
+import { formatInTimeZone, hasDifferentOffset } from '../utils/timezone';
+import AddToCalendarMenu from './AddToCalendarMenu';
+import FavoriteButton from './FavoriteButton';
+import EventReminderControl from './EventReminderControl';
 
 interface EventDetailModalProps {
   event: CalendarEvent;
+  // Timezone event times are shown in
+  timeZone: string;
   onClose: () => void;
 }
 
-const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, onClose }) => {
-  const formatDateTime = (dateString: string) => {
-    const date = new Date(dateString);
+const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, timeZone, onClose }) => {
+  // All-day dates are calendar dates and are formatted without a timezone
+  const formatDateTime = (date: Date, zone?: string) => {
     return {
-      date: date.toLocaleDateString('en-US', { 
-        weekday: 'long', 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
+      date: date.toLocaleDateString(undefined, {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: zone
       }),
-      time: date.toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit',
-        hour12: true 
-      })
+      time: formatInTimeZone(date, zone || timeZone, {
+        hour: 'numeric',
+        minute: '2-digit'
+      }),
+      zoneName: formatInTimeZone(date, zone || timeZone, { timeZoneName: 'short' }).split(' ').pop()
     };
   };
 
-  const startDateTime = formatDateTime(event.start);
-  const endDateTime = formatDateTime(event.end);
+  const allDay = isAllDayEvent(event);
+  const start = parseEventDate(event.start);
+  const end = allDay ? getEventDayRange(event).last : parseEventDate(event.end);
+  const startDateTime = formatDateTime(start, allDay ? undefined : timeZone);
+  // All-day events end on an exclusive date; show the last day they cover instead
+  const endDateTime = formatDateTime(end, allDay ? undefined : timeZone);
 
-  const addToCalendar = () => {
-    const start = new Date(event.start).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    const end = new Date(event.end).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    
-    const calendarUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(event.title)}&dates=${start}/${end}&details=${encodeURIComponent(event.description || '')}`;
-    
-    window.open(calendarUrl, '_blank');
-  };
+  // Also show the time where the event is organized when it differs from the viewer's
+  const organizerTimeZone = !allDay && event.timeZone && hasDifferentOffset(start, event.timeZone, timeZone)
+    ? event.timeZone
+    : null;
+  const organizerStart = organizerTimeZone ? formatDateTime(start, organizerTimeZone) : null;
+  const organizerEnd = organizerTimeZone ? formatDateTime(end, organizerTimeZone) : null;
 
   const modalRef = useRef<HTMLDivElement>(null);
   
@@ -53,12 +63,15 @@ const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, onClose }) =
         {/* Fixed Header */}
         <div className="flex justify-between items-start p-6 pb-4 border-b border-white border-opacity-10 flex-shrink-0">
           <h2 className="text-2xl font-bold text-white pr-4">{event.title}</h2>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-[#886FFF] hover:bg-opacity-20 rounded-lg transition-colors duration-200 flex-shrink-0"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <FavoriteButton event={event} />
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-[#886FFF] hover:bg-opacity-20 rounded-lg transition-colors duration-200 flex-shrink-0"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         {/* Scrollable Content */}
@@ -76,13 +89,35 @@ const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, onClose }) =
 
           <div className="flex items-center gap-3 text-[#886FFF]">
             <Clock className="w-5 h-5" />
-            <div>
-              <span className="font-medium">{startDateTime.time}</span>
-              <span className="text-[#c9c9d1]"> - </span>
-              <span className="font-medium">{endDateTime.time}</span>
-            </div>
+            {allDay ? (
+              <span className="font-medium">All day</span>
+            ) : (
+              <div>
+                <span className="font-medium">{startDateTime.time}</span>
+                <span className="text-[#c9c9d1]"> - </span>
+                <span className="font-medium">{endDateTime.time}</span>
+                <span className="text-sm text-[#c9c9d1]"> {endDateTime.zoneName} (your time)</span>
+              </div>
+            )}
           </div>
 
+          {organizerStart && organizerEnd && (
+            <div className="flex items-center gap-3 text-[#c9c9d1]">
+              <Globe className="w-5 h-5" />
+              <div className="text-sm">
+                <div>
+                  {organizerStart.time} - {organizerEnd.time} {organizerEnd.zoneName} (organizer's time)
+                </div>
+                {organizerStart.date !== startDateTime.date && (
+                  <div>{organizerStart.date}</div>
+                )}
+                <div className="text-xs opacity-75">{organizerTimeZone?.replace(/_/g, ' ')}</div>
+              </div>
+            </div>
+          )}
+
+          <EventReminderControl event={event} />
+
           {event.description && (
             <div className="mt-6">
               <h3 className="text-lg font-semibold mb-3">Description</h3>
@@ -94,13 +129,7 @@ const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, onClose }) =
 
         {/* Fixed Footer */}
         <div className="p-6 pt-4 border-t border-white border-opacity-10 flex-shrink-0">
-          <button
-            onClick={addToCalendar}
-            className="w-full px-6 py-3 bg-[#886FFF] hover:bg-[#ae7aff] rounded-lg font-medium transition-colors duration-200 flex items-center justify-center gap-2"
-          >
-            <Calendar className="w-4 h-4" />
-            Add to My Calendar
-          </button>
+          <AddToCalendarMenu event={event} />
         </div>
       </div>
     </div>
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, Plus, X } from 'lucide-react';
+import { CalendarEvent } from '../types/calendar';
+import eventRemindersService from '../services/eventRemindersService';
+import type { EventReminder } from '../services/eventRemindersService';
+import notificationService from '../services/notificationService';
+import { parseEventDate } from '../utils/eventLayout';
+import {
+  MAX_REMINDER_MINUTES,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_OFFSET_PRESETS,
+  ReminderChannel,
+  formatReminderLabel,
+  getReminderTime,
+  isValidReminderOffset
+} from '../utils/reminders';
+
+interface EventReminderControlProps {
+  event: CalendarEvent;
+}
+
+// Select value for typing a number of minutes
+const CUSTOM_OFFSET = 'custom';
+
+const EventReminderControl: React.FC<EventReminderControlProps> = ({ event }) => {
+  const controlId = React.useId();
+  const [reminders, setReminders] = useState<EventReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [channel, setChannel] = useState<ReminderChannel>('push');
+  const [offset, setOffset] = useState('10');
+  const [customMinutes, setCustomMinutes] = useState('');
+  const [error, setError] = useState('');
+
+  const start = parseEventDate(event.start);
+  const hasStarted = start.getTime() <= Date.now();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError('');
+    eventRemindersService.getReminders(event.id)
+      .then(result => {
+        if (!cancelled) setReminders(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your reminders for this event.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [event.id]);
+
+  const ensurePushSubscription = async () => {
+    try {
+      const preferences = await notificationService.getPreferences();
+      return await notificationService.initializePushNotifications(preferences.email, preferences.email);
+    } catch (error) {
+      console.error('Error initializing push notifications:', error);
+      return false;
+    }
+  };
+
+  const addReminder = async () => {
+    const value = offset === CUSTOM_OFFSET ? customMinutes.trim() : offset;
+    // An empty field would read as 0, i.e. a reminder at start time
+    const minutes = value === '' ? NaN : Number(value);
+    if (!isValidReminderOffset(minutes)) {
+      setError(`Enter a number of minutes between 0 and ${MAX_REMINDER_MINUTES}.`);
+      return;
+    }
+    if (getReminderTime(start, minutes).getTime() <= Date.now()) {
+      setError('That reminder time has already passed.');
+      return;
+    }
+    if (reminders.some(reminder => reminder.channel === channel && reminder.minutesBefore === minutes)) {
+      setError('You already have this reminder.');
+      return;
+    }
+
+    if (channel === 'push' && !notificationService.hasNotificationPermission()) {
+      const permission = await notificationService.requestNotificationPermission();
+      if (permission !== 'granted') {
+        setError('Browser notifications are blocked. Allow them in your browser settings or use email instead.');
+        return;
+      }
+    }
+
+    // The server sends browser reminders by push, so this browser needs a push subscription
+    if (channel === 'push' && !(await ensurePushSubscription())) {
+      setError('Could not set up browser notifications on this device. Please try again or use email instead.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+      const reminder = await eventRemindersService.addReminder(event, channel, minutes);
+      setReminders(current => [...current, reminder].sort((a, b) => b.minutesBefore - a.minutesBefore));
+    } catch {
+      setError('Could not save the reminder. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeReminder = async (reminder: EventReminder) => {
+    try {
+      setError('');
+      await eventRemindersService.removeReminder(reminder.id);
+      setReminders(current => current.filter(item => item.id !== reminder.id));
+    } catch {
+      setError('Could not remove the reminder. Please try again.');
+    }
+  };
+
+  if (hasStarted && reminders.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-3 text-[#c9c9d1]">
+      <Bell className="w-5 h-5 mt-1 text-[#886FFF] flex-shrink-0" />
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="font-medium text-white">Remind me</div>
+
+        {isLoading ? (
+          <p className="text-sm">Loading reminders...</p>
+        ) : reminders.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {reminders.map(reminder => (
+              <li
+                key={reminder.id}
+                className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm bg-[#886FFF] bg-opacity-20 text-white"
+              >
+                {REMINDER_CHANNEL_LABELS[reminder.channel]}, {formatReminderLabel(reminder.minutesBefore).toLowerCase()}
+                <button
+                  onClick={() => removeReminder(reminder)}
+                  className="p-1 rounded-full hover:bg-white hover:bg-opacity-10"
+                  aria-label="Remove reminder"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!hasStarted && !isLoading && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as ReminderChannel)}
+              aria-label="Reminder channel"
+              className="px-2 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+            >
+              {(Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[]).map(option => (
+                <option key={option} value={option}>{REMINDER_CHANNEL_LABELS[option]}</option>
+              ))}
+            </select>
+            <select
+              value={offset}
+              onChange={(e) => setOffset(e.target.value)}
+              aria-label="Reminder time"
+              className="px-2 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+            >
+              {REMINDER_OFFSET_PRESETS.map(minutes => (
+                <option key={minutes} value={minutes}>{formatReminderLabel(minutes)}</option>
+              ))}
+              <option value={CUSTOM_OFFSET}>Custom...</option>
+            </select>
+            {offset === CUSTOM_OFFSET && (
+              <label htmlFor={`custom-minutes-${controlId}`} className="flex items-center gap-1 text-sm">
+                <input
+                  id={`custom-minutes-${controlId}`}
+                  type="number"
+                  min={0}
+                  max={MAX_REMINDER_MINUTES}
+                  value={customMinutes}
+                  onChange={(e) => setCustomMinutes(e.target.value)}
+                  className="w-20 px-2 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+                />
+                minutes before
+              </label>
+            )}
+            <button
+              onClick={addReminder}
+              disabled={isSaving || (offset === CUSTOM_OFFSET && customMinutes.trim() === '')}
+              className="px-3 py-1 bg-[#886FFF] hover:bg-[#ae7aff] rounded-lg text-white text-sm transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default EventReminderControl;
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CalendarDays, MapPin, Search, X } from 'lucide-react';
+import { CalendarEvent } from '../types/calendar';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { SEARCH_RANGE_LABELS, SearchRangePreset, useEventSearch } from '../hooks/useEventSearch';
+import { MatchRange } from '../utils/eventSearch';
+import { isAllDayEvent, parseEventDate } from '../utils/eventLayout';
+import { formatInTimeZone } from '../utils/timezone';
+
+interface EventSearchProps {
+  // Timezone event times are shown in
+  timeZone: string;
+  onOpenEvent: (event: CalendarEvent) => void;
+  onShowInCalendar: (event: CalendarEvent) => void;
+}
+
+// Render `text` with the matched ranges highlighted
+const Highlighted: React.FC<{ text: string; matches: MatchRange[] }> = ({ text, matches }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-[#886FFF] bg-opacity-40 text-white rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+const EventSearch: React.FC<EventSearchProps> = ({ timeZone, onOpenEvent, onShowInCalendar }) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [preset, setPreset] = useState<SearchRangePreset>('next12Months');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { results, refreshing, eventCount } = useEventSearch(query, preset, open);
+
+  const close = useCallback(() => setOpen(false), []);
+  useClickOutside(containerRef, close, open);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  // Focus the search box with "/" like most search UIs
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key === '/' && !['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        e.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const openResult = (event: CalendarEvent) => {
+    setOpen(false);
+    onOpenEvent(event);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex].event);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  const formatWhen = (event: CalendarEvent) => {
+    const start = parseEventDate(event.start);
+    if (isAllDayEvent(event)) {
+      return start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    }
+    return formatInTimeZone(start, timeZone, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full sm:w-72">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+      <input
+        ref={inputRef}
+        type="search"
+        placeholder="Search events..."
+        aria-label="Search events"
+        className="bg-[#2a2a3a] text-white text-sm rounded-lg pl-10 pr-9 py-3 w-full focus:outline-none focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+      />
+      {query && (
+        <button
+          onClick={() => {
+            setQuery('');
+            inputRef.current?.focus();
+          }}
+          className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 text-gray-400 hover:text-white"
+          aria-label="Clear search"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-[min(28rem,calc(100vw-1rem))] bg-[#1a1a2e] bg-opacity-95 backdrop-blur-lg border border-white border-opacity-12 rounded-xl shadow-2xl shadow-[#886FFF]/30 z-40">
+          <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-white border-opacity-10 text-xs text-[#c9c9d1]">
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as SearchRangePreset)}
+              className="bg-transparent text-[#c9c9d1] focus:outline-none cursor-pointer"
+              aria-label="Search range"
+            >
+              {(Object.keys(SEARCH_RANGE_LABELS) as SearchRangePreset[]).map(option => (
+                <option key={option} value={option} className="bg-[#1a1a2e]">{SEARCH_RANGE_LABELS[option]}</option>
+              ))}
+            </select>
+            <span className="flex items-center gap-2">
+              {refreshing && <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-[#886FFF]"></span>}
+              {eventCount} events
+            </span>
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto py-1" role="listbox">
+            {query.trim() && results.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-[#c9c9d1]">
+                {refreshing ? 'Searching...' : 'No matching events'}
+              </li>
+            )}
+            {results.map((result, index) => (
+              <li
+                key={`${result.event.sourceId}:${result.event.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`px-4 py-3 cursor-pointer flex items-start gap-3 ${
+                  index === activeIndex ? 'bg-[#886FFF] bg-opacity-20' : 'hover:bg-[#886FFF] hover:bg-opacity-10'
+                }`}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => openResult(result.event)}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-white truncate">
+                    <Highlighted text={result.event.title} matches={result.titleMatches} />
+                  </div>
+                  <div className="text-xs text-[#886FFF]">{formatWhen(result.event)}</div>
+                  {result.event.location && (
+                    <div className="flex items-center gap-1 text-xs text-[#c9c9d1] truncate">
+                      <MapPin className="w-3 h-3 flex-shrink-0" />
+                      <Highlighted text={result.event.location} matches={result.locationMatches} />
+                    </div>
+                  )}
+                  {result.snippet && (
+                    <div className="text-xs text-[#c9c9d1] mt-1 line-clamp-2">
+                      <Highlighted text={result.snippet.text} matches={result.snippet.matches} />
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setOpen(false);
+                    onShowInCalendar(result.event);
+                  }}
+                  className="p-2 text-[#c9c9d1] hover:text-white hover:bg-[#886FFF] hover:bg-opacity-20 rounded-lg flex-shrink-0"
+                  title="Show in calendar"
+                  aria-label="Show in calendar"
+                >
+                  <CalendarDays className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventSearch;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Check, Star, X } from 'lucide-react';
+
+interface EventTypeFilterProps {
+  types: string[];
+  hiddenTypes: Set<string>;
+  onToggle: (type: string) => void;
+  onShowAll: () => void;
+  // Only starred events are shown; type filters don't apply in this mode
+  myEventsOnly: boolean;
+  favoriteCount: number;
+  onToggleMyEvents: () => void;
+}
+
+const EventTypeFilter: React.FC<EventTypeFilterProps> = ({
+  types,
+  hiddenTypes,
+  onToggle,
+  onShowAll,
+  myEventsOnly,
+  favoriteCount,
+  onToggleMyEvents
+}) => {
+  if (types.length === 0 && favoriteCount === 0 && !myEventsOnly) return null;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 overflow-x-auto pb-1" role="group" aria-label="Filter events">
+        <button
+          onClick={onToggleMyEvents}
+          aria-pressed={myEventsOnly}
+          className={`px-3 py-1 rounded-full text-sm whitespace-nowrap border transition-colors duration-200 flex items-center gap-1 ${
+            myEventsOnly
+              ? 'bg-yellow-400 bg-opacity-20 border-yellow-400 border-opacity-60 text-white'
+              : 'border-white border-opacity-10 text-[#c9c9d1] hover:text-white'
+          }`}
+        >
+          <Star className="w-3 h-3 text-yellow-400" fill={myEventsOnly ? 'currentColor' : 'none'} />
+          My Events ({favoriteCount})
+        </button>
+
+        {!myEventsOnly && types.map(type => {
+          const visible = !hiddenTypes.has(type);
+          return (
+            <button
+              key={type}
+              onClick={() => onToggle(type)}
+              aria-pressed={visible}
+              className={`px-3 py-1 rounded-full text-sm whitespace-nowrap border transition-colors duration-200 flex items-center gap-1 ${
+                visible
+                  ? 'bg-[#886FFF] bg-opacity-20 border-[#886FFF] border-opacity-50 text-white hover:bg-opacity-30'
+                  : 'border-white border-opacity-10 text-[#c9c9d1] opacity-60 hover:opacity-100'
+              }`}
+            >
+              {visible && <Check className="w-3 h-3" />}
+              {type}
+            </button>
+          );
+        })}
+
+        {!myEventsOnly && hiddenTypes.size > 0 && (
+          <button
+            onClick={onShowAll}
+            className="px-3 py-1 rounded-full text-sm whitespace-nowrap text-[#886FFF] hover:bg-[#886FFF] hover:bg-opacity-10 flex items-center gap-1"
+          >
+            <X className="w-3 h-3" />
+            Show all ({hiddenTypes.size} hidden)
+          </button>
+        )}
+      </div>
+      {myEventsOnly && favoriteCount === 0 && (
+        <p className="text-sm text-[#c9c9d1] mt-2">
+          Star events to add them to My Events and get reminders for them.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EventTypeFilter;
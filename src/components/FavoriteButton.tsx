@@ -0,0 +1,35 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { CalendarEvent } from '../types/calendar';
+import { useFavorites } from '../hooks/useFavorites';
+
+interface FavoriteButtonProps {
+  event: CalendarEvent;
+  className?: string;
+}
+
+const FavoriteButton: React.FC<FavoriteButtonProps> = ({ event, className = '' }) => {
+  const { favoriteIds, toggleFavorite } = useFavorites();
+  const starred = favoriteIds.has(event.id);
+  const label = starred ? 'Remove from My Events' : 'Add to My Events and get reminders';
+
+  return (
+    <button
+      onClick={(e) => {
+        // Rows the button sits in open the event when clicked
+        e.stopPropagation();
+        toggleFavorite(event);
+      }}
+      aria-pressed={starred}
+      aria-label={label}
+      title={label}
+      className={`p-2 rounded-lg transition-colors duration-200 flex-shrink-0 hover:bg-[#886FFF] hover:bg-opacity-20 ${
+        starred ? 'text-yellow-400' : 'text-[#c9c9d1] hover:text-white'
+      } ${className}`}
+    >
+      <Star className="w-5 h-5" fill={starred ? 'currentColor' : 'none'} />
+    </button>
+  );
+};
+
+export default FavoriteButton;
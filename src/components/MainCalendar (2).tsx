@@ -4,6 +4,7 @@ import CalendarGrid from './CalendarGrid';
 import EventDetailModal from './EventDetailModal';
 import DayEventsModal from './DayEventsModal';
 import SettingsModal from './SettingsModal';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
 import { fetchGoogleCalendarEvents } from '../utils/googleCalendar';
 import { CalendarEvent } from '../types/calendar';
 
@@ -15,6 +16,7 @@ const MainCalendar: React.FC = () => {
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [isFirstTime, setIsFirstTime] = useState(false);
+  const timeZone = useDisplayTimeZone();
 
   useEffect(() => {
     const hasVisited = localStorage.getItem('monad-pulse-visited');
@@ -34,8 +36,8 @@ const MainCalendar: React.FC = () => {
   const loadEvents = async () => {
     setLoading(true);
     try {
-      const calendarEvents = await fetchGoogleCalendarEvents(currentDate);
-      setEvents(calendarEvents);
+      const result = await fetchGoogleCalendarEvents(currentDate);
+      setEvents(result.ok ? result.data : []);
     } catch (error) {
       console.error('Failed to load events:', error);
       // Optionally show an error message to the user
@@ -120,6 +122,7 @@ const MainCalendar: React.FC = () => {
         loading={loading}
         onEventClick={handleEventClick}
         onDayClick={handleDayClick}
+        timeZone={timeZone}
       />
 
       {/* Modals */}
@@ -127,6 +130,7 @@ const MainCalendar: React.FC = () => {
         <EventDetailModal
           event={selectedEvent}
           onClose={() => setSelectedEvent(null)}
+          timeZone={timeZone}
         />
       )}
 
@@ -138,6 +142,7 @@ const MainCalendar: React.FC = () => {
             return eventDate.toDateString() === selectedDay.toDateString();
           })}
           onClose={() => setSelectedDay(null)}
+          timeZone={timeZone}
           onEventClick={handleEventClick}
         />
       )}
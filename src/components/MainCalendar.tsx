@@ -1,21 +1,129 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { NavigateOptions, useLocation, useMatch, useNavigate } from 'react-router-dom';
 import { ChevronLeft, ChevronRight, Settings, Calendar, Twitter } from 'lucide-react';
 import CalendarGrid from './CalendarGrid';
+import WeekView from './WeekView';
+import AgendaView from './AgendaView';
 import EventDetailModal from './EventDetailModal';
 import DayEventsModal from './DayEventsModal';
 import BulkSettingsModal from './BulkSettingsModal';
-import { fetchGoogleCalendarEvents } from '../utils/googleCalendar';
+import CalendarErrorBanner from './CalendarErrorBanner';
+import EventSearch from './EventSearch';
+import EventTypeFilter from './EventTypeFilter';
+import ReminderToasts from './ReminderToasts';
+import { useCalendarEvents } from '../hooks/useCalendarEvents';
+import { useAgendaEvents } from '../hooks/useAgendaEvents';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useEventTypeFilter } from '../hooks/useEventTypeFilter';
+import { useFavorites } from '../hooks/useFavorites';
+import { useMyEventsMode } from '../hooks/useMyEventsMode';
+import { useLocalReminders } from '../hooks/useLocalReminders';
+import { useLinkedEvent } from '../hooks/useLinkedEvent';
+import notificationService from '../services/notificationService';
+import favoritesService from '../services/favoritesService';
 import { CalendarEvent } from '../types/calendar';
+import { downloadEventIcs } from '../utils/calendarExport';
+import { eventOccursOnDay, getWeekDays, parseEventDate } from '../utils/eventLayout';
+import {
+  ADD_TO_CALENDAR_HASH,
+  ROUTES,
+  getDayPath,
+  getEventPath,
+  getMonthPath,
+  parseDayParam,
+  parseMonthParams
+} from '../utils/routes';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: 'Month',
+  week: 'Week',
+  agenda: 'Agenda'
+};
+
+// The seven-column grid is too cramped on phones, so they start in the agenda
+const getInitialView = (): CalendarView =>
+  typeof window !== 'undefined' && window.matchMedia?.('(max-width: 640px)').matches ? 'agenda' : 'month';
+
+// Location state of modals opened from within the app, so that closing them can go back
+interface OverlayState {
+  fromApp?: boolean;
+}
 
 const MainCalendar: React.FC = () => {
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
-  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Route changes keep the query string, which holds the event type filter
+  const navigateTo = useCallback(
+    (pathname: string, options?: NavigateOptions) => navigate({ pathname, search: location.search }, options),
+    [navigate, location.search]
+  );
+  const dayMatch = useMatch(ROUTES.day);
+  const eventMatch = useMatch(ROUTES.event);
+  const yearMonthMatch = useMatch(ROUTES.month);
+  // '/:year/:month' also matches '/day/...' and '/event/...'
+  const monthMatch = dayMatch || eventMatch ? null : yearMonthMatch;
+
+  const routeMonth = parseMonthParams(monthMatch?.params.year, monthMatch?.params.month);
+  const selectedDay = parseDayParam(dayMatch?.params.date);
+  const selectedEventId = eventMatch?.params.id;
+
+  const [currentDate, setCurrentDate] = useState(() => routeMonth || selectedDay || new Date());
+  const [view, setView] = useState<CalendarView>(getInitialView);
+  const {
+    events,
+    loading,
+    revalidating,
+    errors,
+    allFailed,
+    lastUpdated,
+    retry
+  } = useCalendarEvents(currentDate);
+  const timeZone = useDisplayTimeZone();
+  const agenda = useAgendaEvents(new Date());
+  const { hiddenTypes, toggleType, showAll, filterEvents } = useEventTypeFilter();
+  const { myEventsOnly, setMyEventsOnly } = useMyEventsMode();
+  const { favoriteIds } = useFavorites();
+  // "My Events" shows every starred event, whatever its type
+  const applyFilters = (list: CalendarEvent[]) =>
+    myEventsOnly ? list.filter(event => favoriteIds.has(event.id)) : filterEvents(list);
+  const filteredEvents = applyFilters(events);
+  // Hidden types stay listed so that they can be shown again
+  const eventTypes = Array.from(new Set([
+    ...notificationService.getUniqueEventTypes(view === 'agenda' ? agenda.events : events),
+    ...hiddenTypes
+  ])).sort((a, b) => a.localeCompare(b));
   const [showSettings, setShowSettings] = useState(false);
+  // Reminders shown by the page for everything loaded, the displayed month and the agenda
+  const reminderEvents = useMemo(() => {
+    const byId = new Map<string, CalendarEvent>();
+    [...events, ...agenda.events].forEach(event => byId.set(event.id, event));
+    return Array.from(byId.values());
+  }, [events, agenda.events]);
+  const openEventById = useCallback(
+    (id: string) => navigateTo(getEventPath(id), { state: { fromApp: true } }),
+    [navigateTo]
+  );
+  const { toasts: reminderToasts, dismissToast } = useLocalReminders(reminderEvents, openEventById);
   const [isFirstTime, setIsFirstTime] = useState(false);
 
+  // Pull starred events from the server, and send stars made while offline once back online
+  useEffect(() => {
+    const syncFavorites = () => {
+      favoritesService.sync();
+    };
+    syncFavorites();
+    window.addEventListener('online', syncFavorites);
+    return () => window.removeEventListener('online', syncFavorites);
+  }, []);
+
+  // Browsers subscribed before the service worker kept its push config need to hand it over,
+  // or the worker can't re-subscribe by itself
+  useEffect(() => {
+    notificationService.getPreferences().then(preferences => notificationService.syncPushConfig(preferences.email));
+  }, []);
+
   useEffect(() => {
     const hasVisited = localStorage.getItem('monad-pulse-visited');
     if (!hasVisited) {
@@ -27,43 +135,124 @@ const MainCalendar: React.FC = () => {
     }
   }, []);
 
+  // Follow the month of the URL, including on back/forward. The root URL shows the current month.
+  const today = new Date();
+  const routeTime = (routeMonth || selectedDay)?.getTime() ??
+    (location.pathname === '/' ? new Date(today.getFullYear(), today.getMonth(), 1).getTime() : undefined);
+  useEffect(() => {
+    if (routeTime === undefined) return;
+    const routeDate = new Date(routeTime);
+    setCurrentDate(current =>
+      current.getFullYear() === routeDate.getFullYear() && current.getMonth() === routeDate.getMonth()
+        ? current
+        : routeDate
+    );
+  }, [routeTime]);
+
+  // Unknown months and days fall back to the calendar home
+  const invalidRoute = (monthMatch && !routeMonth) || (dayMatch && !selectedDay);
+  useEffect(() => {
+    if (invalidRoute) {
+      navigateTo('/', { replace: true });
+    }
+  }, [invalidRoute, navigateTo]);
+
+  const visibleEvent = selectedEventId
+    ? events.find(event => event.id === selectedEventId) ||
+      agenda.events.find(event => event.id === selectedEventId)
+    : undefined;
+  // Events opened from a notification or a shared link may be in another month:
+  // find them in the cache and move the calendar there. Give up only once the
+  // month and the agenda are fetched, as a new event is not cached before that.
+  const { linkedEvent, notFound } = useLinkedEvent(
+    selectedEventId,
+    Boolean(visibleEvent),
+    !loading && !revalidating && !agenda.loading
+  );
+  const selectedEvent = visibleEvent || linkedEvent;
+
+  useEffect(() => {
+    if (linkedEvent) {
+      setCurrentDate(parseEventDate(linkedEvent.start));
+    }
+  }, [linkedEvent]);
+
   useEffect(() => {
-    loadEvents();
-  }, [currentDate]);
-
-  const loadEvents = async () => {
-    setLoading(true);
-    try {
-      const calendarEvents = await fetchGoogleCalendarEvents(currentDate);
-      setEvents(calendarEvents);
-    } catch (error) {
-      console.error('Failed to load events:', error);
-      // Optionally show an error message to the user
-    } finally {
-      setLoading(false);
+    if (!notFound) return;
+    console.warn(`Event ${selectedEventId} was not found`);
+    navigateTo(getMonthPath(currentDate), { replace: true });
+  }, [notFound, selectedEventId, currentDate, navigateTo]);
+
+  // "Add to calendar" from a notification: download the event once it is loaded, then drop the hash
+  useEffect(() => {
+    if (!selectedEvent || location.hash !== ADD_TO_CALENDAR_HASH) return;
+    downloadEventIcs(selectedEvent);
+    navigate({ pathname: location.pathname, search: location.search }, { replace: true, state: location.state });
+  }, [selectedEvent, location, navigate]);
+
+  // Go back when the modal was opened from within the app, otherwise stay on its month
+  const closeOverlay = () => {
+    if ((location.state as OverlayState | null)?.fromApp) {
+      navigate(-1);
+    } else {
+      navigateTo(getMonthPath(currentDate), { replace: true });
     }
   };
 
-  const goToPreviousMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
+  const goToPrevious = () => {
+    if (view === 'week') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() - 7));
+      return;
+    }
+    navigateTo(getMonthPath(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1)));
   };
 
-  const goToNextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
+  const goToNext = () => {
+    if (view === 'week') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + 7));
+      return;
+    }
+    navigateTo(getMonthPath(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1)));
   };
 
   const goToToday = () => {
     const today = new Date();
-    setCurrentDate(new Date(today.getFullYear(), today.getMonth(), 1));
-    setSelectedDay(today);
+    if (view === 'agenda') {
+      // The agenda always starts today
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+      return;
+    }
+    if (view === 'week') {
+      setCurrentDate(today);
+      return;
+    }
+    navigateTo(getDayPath(today), { state: { fromApp: true } });
+  };
+
+  const changeView = (nextView: CalendarView) => {
+    const today = new Date();
+    // Open the week view on the current week when looking at this month
+    if (nextView === 'week' && today.getFullYear() === currentDate.getFullYear() &&
+      today.getMonth() === currentDate.getMonth()) {
+      setCurrentDate(today);
+    }
+    setView(nextView);
   };
 
   const handleEventClick = (event: CalendarEvent) => {
-    setSelectedEvent(event);
+    navigateTo(getEventPath(event.id), { state: { fromApp: true } });
+  };
+
+  // Move the calendar to a search result without opening it
+  const showInCalendar = (event: CalendarEvent) => {
+    const date = parseEventDate(event.start);
+    setView(current => (current === 'agenda' ? 'month' : current));
+    setCurrentDate(date);
+    navigateTo(getMonthPath(date));
   };
 
   const handleDayClick = (date: Date) => {
-    setSelectedDay(date);
+    navigateTo(getDayPath(date), { state: { fromApp: true } });
   };
 
   const monthNames = [
@@ -71,32 +260,64 @@ const MainCalendar: React.FC = () => {
     'July', 'August', 'September', 'October', 'November', 'December'
   ];
 
+  // Week titles follow the month the week starts in
+  const titleDate = view === 'week' ? getWeekDays(currentDate)[0] : currentDate;
+
   return (
     <div className="min-h-screen w-full max-w-full overflow-x-hidden p-2 sm:p-4 md:p-6">
       {/* Header */}
       <div className="flex flex-col md:flex-row justify-between items-center mb-4 md:mb-6 gap-4 w-full">
         <div className="flex items-center gap-4">
           
-		  <button
-            onClick={goToPreviousMonth}
+		  {view !== 'agenda' && (
+          <button
+            onClick={goToPrevious}
             className="p-3 hover:bg-[#886FFF] hover:bg-opacity-20 rounded-lg transition-colors duration-200"
           >
             <ChevronLeft className="w-5 h-5" />
           </button>
+          )}
           
-          <h1 className="text-3xl md:text-4xl font-bold text-center">
-            {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
+          <h1 className="text-3xl md:text-4xl font-bold text-center flex items-center gap-3">
+            {view === 'agenda' ? 'Upcoming' : `${monthNames[titleDate.getMonth()]} ${titleDate.getFullYear()}`}
+            {view !== 'agenda' && revalidating && !loading && (
+              <span
+                className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#886FFF]"
+                title="Updating events..."
+              ></span>
+            )}
           </h1>
           
+          {view !== 'agenda' && (
           <button
-            onClick={goToNextMonth}
+            onClick={goToNext}
             className="p-3 hover:bg-[#886FFF] hover:bg-opacity-20 rounded-lg transition-colors duration-200"
           >
             <ChevronRight className="w-5 h-5" />
           </button>
+          )}
         </div>
         
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <EventSearch
+            timeZone={timeZone}
+            onOpenEvent={handleEventClick}
+            onShowInCalendar={showInCalendar}
+          />
+          <div className="flex p-1 bg-[#1a1a2e] bg-opacity-50 border border-white border-opacity-10 rounded-lg" role="group" aria-label="Calendar view">
+            {(Object.keys(VIEW_LABELS) as CalendarView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => changeView(option)}
+                aria-pressed={view === option}
+                className={`px-4 py-2 rounded-md font-medium transition-colors duration-200 ${
+                  view === option ? 'bg-[#886FFF] text-white' : 'text-[#c9c9d1] hover:bg-[#886FFF] hover:bg-opacity-20'
+                }`}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
           <button
             onClick={goToToday}
             className="px-6 py-3 bg-[#886FFF] hover:bg-[#ae7aff] rounded-lg font-medium transition-colors duration-200 flex items-center gap-2"
@@ -123,31 +344,79 @@ const MainCalendar: React.FC = () => {
         </div>
       </div>
 
-      {/* Calendar Grid */}
-      <CalendarGrid
-        currentDate={currentDate}
-        events={events}
-        loading={loading}
-        onEventClick={handleEventClick}
-        onDayClick={handleDayClick}
+      {view === 'agenda' ? (
+        <CalendarErrorBanner
+          errors={agenda.errors}
+          allFailed={agenda.allFailed}
+          lastUpdated={null}
+          retrying={agenda.loading}
+          onRetry={agenda.retry}
+        />
+      ) : (
+        <CalendarErrorBanner
+          errors={errors}
+          allFailed={allFailed}
+          lastUpdated={lastUpdated}
+          retrying={revalidating}
+          onRetry={retry}
+        />
+      )}
+
+      <EventTypeFilter
+        types={eventTypes}
+        hiddenTypes={hiddenTypes}
+        onToggle={toggleType}
+        onShowAll={showAll}
+        myEventsOnly={myEventsOnly}
+        favoriteCount={favoriteIds.size}
+        onToggleMyEvents={() => setMyEventsOnly(!myEventsOnly)}
       />
 
+      {/* Calendar Grid */}
+      {view === 'agenda' ? (
+        <AgendaView
+          events={applyFilters(agenda.events)}
+          initialLoading={agenda.initialLoading}
+          loadingMore={agenda.loading}
+          hasMore={agenda.hasMore}
+          timeZone={timeZone}
+          onEventClick={handleEventClick}
+          onLoadMore={agenda.loadMore}
+        />
+      ) : view === 'week' ? (
+        <WeekView
+          currentDate={currentDate}
+          events={filteredEvents}
+          loading={loading}
+          timeZone={timeZone}
+          onEventClick={handleEventClick}
+        />
+      ) : (
+        <CalendarGrid
+          currentDate={currentDate}
+          events={filteredEvents}
+          loading={loading}
+          timeZone={timeZone}
+          onEventClick={handleEventClick}
+          onDayClick={handleDayClick}
+        />
+      )}
+
       {/* Modals */}
       {selectedEvent && (
         <EventDetailModal
           event={selectedEvent}
-          onClose={() => setSelectedEvent(null)}
+          timeZone={timeZone}
+          onClose={closeOverlay}
         />
       )}
 
       {selectedDay && (
         <DayEventsModal
           date={selectedDay}
-          events={events.filter(event => {
-            const eventDate = new Date(event.start);
-            return eventDate.toDateString() === selectedDay.toDateString();
-          })}
-          onClose={() => setSelectedDay(null)}
+          events={filteredEvents.filter(event => eventOccursOnDay(event, selectedDay, timeZone))}
+          timeZone={timeZone}
+          onClose={closeOverlay}
           onEventClick={handleEventClick}
         />
       )}
@@ -159,6 +428,13 @@ const MainCalendar: React.FC = () => {
           isFirstTime={isFirstTime}
         />
       )}
+
+      <ReminderToasts
+        reminders={reminderToasts}
+        timeZone={timeZone}
+        onOpen={(reminder) => openEventById(reminder.event.id)}
+        onDismiss={dismissToast}
+      />
     </div>
   );
 };
@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import { Moon } from 'lucide-react';
+import { CalendarEvent } from '../types/calendar';
+import { QuietHours, previewQuietHours } from '../utils/quietHours';
+import { formatReminderLabel } from '../utils/reminders';
+import { formatInTimeZone, getWeekdayNames } from '../utils/timezone';
+
+interface QuietHoursSectionProps {
+  quietHours: QuietHours;
+  onChange: (quietHours: QuietHours) => void;
+  // Timezone the window applies in
+  timeZone: string;
+  // Events the preview is computed for, and the reminder offsets of each
+  events: CalendarEvent[];
+  getReminderOffsets: (event: CalendarEvent) => number[];
+}
+
+// How many affected reminders the preview lists
+const PREVIEW_LIMIT = 5;
+
+const WEEKDAYS = getWeekdayNames('short');
+
+const QuietHoursSection: React.FC<QuietHoursSectionProps> = ({
+  quietHours,
+  onChange,
+  timeZone,
+  events,
+  getReminderOffsets
+}) => {
+  const sectionId = React.useId();
+  const startId = `quiet-start-${sectionId}`;
+  const endId = `quiet-end-${sectionId}`;
+
+  const preview = useMemo(
+    () => previewQuietHours(events, getReminderOffsets, quietHours, timeZone),
+    [events, getReminderOffsets, quietHours, timeZone]
+  );
+
+  const update = (changes: Partial<QuietHours>) => onChange({ ...quietHours, ...changes });
+
+  const toggleDay = (day: number) => {
+    const days = quietHours.days.includes(day)
+      ? quietHours.days.filter(item => item !== day)
+      : [...quietHours.days, day].sort((a, b) => a - b);
+    update({ days });
+  };
+
+  const formatTime = (date: Date) =>
+    formatInTimeZone(date, timeZone, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Quiet Hours</h3>
+          <p className="text-sm text-gray-400">No reminders during these hours ({timeZone.replace(/_/g, ' ')})</p>
+        </div>
+        <label className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={quietHours.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            aria-label="Enable quiet hours"
+          />
+          <div className="w-11 h-6 bg-gray-700 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[#886FFF]"></div>
+        </label>
+      </div>
+
+      {quietHours.enabled && (
+        <div className="space-y-4 pl-4 border-l-2 border-[#886FFF] border-opacity-30">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-white">
+            <label htmlFor={startId}>From</label>
+            <input
+              id={startId}
+              type="time"
+              value={quietHours.start}
+              onChange={(e) => e.target.value && update({ start: e.target.value })}
+              className="px-3 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+            />
+            <label htmlFor={endId}>to</label>
+            <input
+              id={endId}
+              type="time"
+              value={quietHours.end}
+              onChange={(e) => e.target.value && update({ end: e.target.value })}
+              className="px-3 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-400 mb-2">Starting on</p>
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Quiet hours days">
+              {WEEKDAYS.map((name, day) => {
+                const active = quietHours.days.includes(day);
+                return (
+                  <button
+                    key={day}
+                    onClick={() => toggleDay(day)}
+                    aria-pressed={active}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                      active
+                        ? 'bg-[#886FFF] bg-opacity-20 border-[#886FFF] border-opacity-50 text-white'
+                        : 'border-white border-opacity-10 text-[#c9c9d1] opacity-60 hover:opacity-100'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2 text-sm text-white">
+            <p className="text-gray-400">Reminders due during quiet hours are</p>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name={`quiet-behavior-${sectionId}`}
+                checked={quietHours.behavior === 'defer'}
+                onChange={() => update({ behavior: 'defer' })}
+                className="text-[#886FFF] focus:ring-[#886FFF]"
+              />
+              Sent when quiet hours end
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name={`quiet-behavior-${sectionId}`}
+                checked={quietHours.behavior === 'suppress'}
+                onChange={() => update({ behavior: 'suppress' })}
+                className="text-[#886FFF] focus:ring-[#886FFF]"
+              />
+              Skipped
+            </label>
+          </div>
+
+          <div className="bg-[#2a2a3a] rounded-lg p-3 text-sm">
+            <p className="flex items-center gap-2 text-white font-medium mb-2">
+              <Moon className="w-4 h-4 text-[#886FFF]" />
+              Affected in the next 7 days
+            </p>
+            {preview.length === 0 ? (
+              <p className="text-gray-400">No upcoming reminders fall in your quiet hours.</p>
+            ) : (
+              <ul className="space-y-1 text-[#c9c9d1]">
+                {preview.slice(0, PREVIEW_LIMIT).map(item => (
+                  <li key={`${item.event.id}:${item.minutesBefore}`}>
+                    <span className="text-white">{item.event.title}</span>
+                    {' '}({formatReminderLabel(item.minutesBefore).toLowerCase()}, {formatTime(item.reminderTime)}):{' '}
+                    {item.outcome.action === 'defer' ? `sent ${formatTime(item.outcome.at)}` : 'skipped'}
+                  </li>
+                ))}
+                {preview.length > PREVIEW_LIMIT && (
+                  <li className="text-gray-400">and {preview.length - PREVIEW_LIMIT} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuietHoursSection;
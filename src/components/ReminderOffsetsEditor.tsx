@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  MAX_REMINDER_MINUTES,
+  REMINDER_OFFSET_PRESETS,
+  formatReminderLabel,
+  isValidReminderOffset,
+  normalizeReminderOffsets
+} from '../utils/reminders';
+
+interface ReminderOffsetsEditorProps {
+  // Minutes before events, longest first
+  offsets: number[];
+  onChange: (offsets: number[]) => void;
+  disabled?: boolean;
+  // Highlight the editor, e.g. when no reminder is set
+  invalid?: boolean;
+  // Describes the list to screen readers, e.g. "Email reminders"
+  label: string;
+}
+
+// Select value for typing a number of minutes
+const CUSTOM_OFFSET = 'custom';
+
+const ReminderOffsetsEditor: React.FC<ReminderOffsetsEditorProps> = ({
+  offsets,
+  onChange,
+  disabled = false,
+  invalid = false,
+  label
+}) => {
+  const customId = `reminder-minutes-${React.useId()}`;
+  const [adding, setAdding] = useState('');
+  const [customMinutes, setCustomMinutes] = useState('');
+  const [error, setError] = useState('');
+
+  const availablePresets = REMINDER_OFFSET_PRESETS.filter(minutes => !offsets.includes(minutes));
+
+  const addOffset = (minutes: number) => {
+    if (!isValidReminderOffset(minutes)) {
+      setError(`Enter a number of minutes between 0 and ${MAX_REMINDER_MINUTES}.`);
+      return;
+    }
+    setError('');
+    setAdding('');
+    setCustomMinutes('');
+    onChange(normalizeReminderOffsets([...offsets, minutes]) || []);
+  };
+
+  const addCustomOffset = () => {
+    const value = customMinutes.trim();
+    // An empty field would read as 0, i.e. a reminder at start time
+    addOffset(value === '' ? NaN : Number(value));
+  };
+
+  const removeOffset = (minutes: number) => {
+    onChange(offsets.filter(offset => offset !== minutes));
+  };
+
+  return (
+    <div className="space-y-2" role="group" aria-label={label}>
+      <ul className="flex flex-wrap gap-2">
+        {offsets.map(minutes => (
+          <li
+            key={minutes}
+            className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm bg-[#886FFF] bg-opacity-20 text-white"
+          >
+            {formatReminderLabel(minutes)}
+            <button
+              onClick={() => removeOffset(minutes)}
+              disabled={disabled}
+              className="p-1 rounded-full hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+              aria-label={`Remove reminder ${formatReminderLabel(minutes).toLowerCase()}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+
+        <li>
+          <select
+            value={adding}
+            disabled={disabled}
+            onChange={(e) => {
+              if (e.target.value === CUSTOM_OFFSET) {
+                setAdding(CUSTOM_OFFSET);
+              } else if (e.target.value) {
+                addOffset(Number(e.target.value));
+              }
+            }}
+            aria-label="Add a reminder"
+            className={`px-2 py-1 bg-[#0f0f1a] border ${invalid ? 'border-red-500' : 'border-gray-600'} rounded-full text-sm text-[#c9c9d1] focus:ring-2 focus:ring-[#886FFF] focus:border-transparent disabled:opacity-50`}
+          >
+            <option value="">+ Add reminder</option>
+            {availablePresets.map(minutes => (
+              <option key={minutes} value={minutes}>{formatReminderLabel(minutes)}</option>
+            ))}
+            <option value={CUSTOM_OFFSET}>Custom...</option>
+          </select>
+        </li>
+      </ul>
+
+      {adding === CUSTOM_OFFSET && (
+        <div className="flex items-center gap-2 text-sm text-[#c9c9d1]">
+          <label htmlFor={customId} className="flex items-center gap-2">
+            <input
+              id={customId}
+              type="number"
+              min={0}
+              max={MAX_REMINDER_MINUTES}
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addCustomOffset();
+              }}
+              className="w-24 px-2 py-1 bg-[#0f0f1a] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#886FFF] focus:border-transparent"
+            />
+            minutes before
+          </label>
+          <button
+            onClick={addCustomOffset}
+            disabled={disabled || customMinutes.trim() === ''}
+            className="px-3 py-1 bg-[#886FFF] hover:bg-[#ae7aff] rounded-lg text-white transition-colors flex items-center gap-1 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+          <button
+            onClick={() => {
+              setAdding('');
+              setError('');
+            }}
+            className="px-2 py-1 hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default ReminderOffsetsEditor;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Bell, X } from 'lucide-react';
+import { LocalReminder, formatTimeUntilStart } from '../utils/localReminders';
+import { parseEventDate } from '../utils/eventLayout';
+import { formatInTimeZone } from '../utils/timezone';
+
+interface ReminderToastsProps {
+  reminders: LocalReminder[];
+  timeZone: string;
+  onOpen: (reminder: LocalReminder) => void;
+  onDismiss: (key: string) => void;
+}
+
+// In-app reminders, for when the browser doesn't allow system notifications
+const ReminderToasts: React.FC<ReminderToastsProps> = ({ reminders, timeZone, onOpen, onDismiss }) => {
+  if (reminders.length === 0) return null;
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 left-4 sm:left-auto sm:w-96 z-50 space-y-3"
+      role="status"
+      aria-live="polite"
+    >
+      {reminders.map(reminder => (
+        <div
+          key={reminder.key}
+          className="flex items-start gap-3 p-4 bg-[#1a1a2e] border border-[#886FFF] border-opacity-50 rounded-xl shadow-lg"
+        >
+          <Bell className="w-5 h-5 mt-0.5 text-[#886FFF] flex-shrink-0" />
+          <button
+            onClick={() => {
+              onOpen(reminder);
+              onDismiss(reminder.key);
+            }}
+            className="flex-1 min-w-0 text-left"
+          >
+            <span className="block font-medium text-white truncate">{reminder.event.title}</span>
+            <span className="block text-sm text-[#c9c9d1]">
+              {formatTimeUntilStart(reminder.event)}, {formatInTimeZone(parseEventDate(reminder.event.start), timeZone, {
+                hour: 'numeric',
+                minute: '2-digit'
+              })}
+            </span>
+          </button>
+          <button
+            onClick={() => onDismiss(reminder.key)}
+            className="p-1 rounded-lg text-[#c9c9d1] hover:bg-[#886FFF] hover:bg-opacity-20"
+            aria-label="Dismiss reminder"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReminderToasts;
@@ -2,16 +2,14 @@ import React, { useState, useEffect, useRef } from 'react';
 import { X, Bell, Check, AlertCircle, Search, Clock } from 'lucide-react';
 import { useClickOutside } from '../hooks/useClickOutside';
 import { CalendarEvent } from '../types/calendar';
+import { getDisplayTimeZone } from '../utils/timezone';
 // Import the notification service
 import notificationService from '../services/notificationService';
 import type { UserPreferences } from '../services/notificationService';
-
-// Extend the CalendarEvent type to include extendedProps if needed
-type ExtendedCalendarEvent = CalendarEvent & {
-  extendedProps?: {
-    eventType?: string;
-  };
-};
+import ReminderOffsetsEditor from './ReminderOffsetsEditor';
+import { DEFAULT_REMINDER_OFFSETS } from '../utils/reminders';
+import { DEFAULT_QUIET_HOURS } from '../utils/quietHours';
+import { DEFAULT_DIGEST_SETTINGS } from '../utils/digest';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -28,11 +26,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, events, isFirstT
     notifyEmail: true,
     notifyBrowser: true,
     notifyAllEvents: true,
-    email1hBefore: true,
-    email10mBefore: true,
-    browser1hBefore: true,
-    browser10mBefore: true,
+    emailReminderOffsets: DEFAULT_REMINDER_OFFSETS,
+    browserReminderOffsets: DEFAULT_REMINDER_OFFSETS,
     notifyNewEvents: true,
+    timezone: getDisplayTimeZone(),
+    quietHours: DEFAULT_QUIET_HOURS,
+    digest: DEFAULT_DIGEST_SETTINGS,
   });
   const [eventTypes, setEventTypes] = useState<{ [key: string]: boolean }>({});
   const modalRef = useRef<HTMLDivElement>(null);
@@ -51,16 +50,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, events, isFirstT
         const prefs = await notificationService.getPreferences();
         setPreferences(prefs);
 
-        // Extract unique event types from the events
-        const types = new Set<string>();
-        events.forEach((event: ExtendedCalendarEvent) => {
-          if (event.extendedProps?.eventType) {
-            types.add(event.extendedProps.eventType);
-          } else if (event.title) {
-            // Use the full event title as the event type
-            types.add(event.title);
-          }
-        });
+        // Group events into series, so that each occurrence isn't its own type
+        const types = new Set<string>(notificationService.getUniqueEventTypes(events));
 
         // If no event types found, use some default ones
         if (types.size === 0) {
@@ -322,7 +313,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, events, isFirstT
     }
   };
 
-  const handlePreferenceChange = async (key: keyof UserPreferences, value: boolean | string) => {
+  const handlePreferenceChange = async (key: keyof UserPreferences, value: boolean | string | number[]) => {
     // For email updates, handle it with debouncing
     if (key === 'email') {
       const newEmail = String(value);
@@ -495,27 +486,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, events, isFirstT
                           <span className="text-sm text-[#c9c9d1]">Remind me before events:</span>
                         </div>
 
-                        <div className="flex flex-wrap gap-4">
-                          <label className="flex items-center space-x-2 cursor-pointer">
-                            <input
-                              type="checkbox"
-                              className="w-4 h-4 text-[#886FFF] bg-[#0e0e10] border-white border-opacity-20 rounded focus:ring-[#886FFF] focus:ring-2"
-                              checked={preferences.email1hBefore}
-                              onChange={(e) => handlePreferenceChange('email1hBefore', e.target.checked)}
-                            />
-                            <span className="text-sm text-[#c9c9d1]">1 hour before</span>
-                          </label>
-
-                          <label className="flex items-center space-x-2 cursor-pointer">
-                            <input
-                              type="checkbox"
-                              className="w-4 h-4 text-[#886FFF] bg-[#0e0e10] border-white border-opacity-20 rounded focus:ring-[#886FFF] focus:ring-2"
-                              checked={preferences.email10mBefore}
-                              onChange={(e) => handlePreferenceChange('email10mBefore', e.target.checked)}
-                            />
-                            <span className="text-sm text-[#c9c9d1]">10 minutes before</span>
-                          </label>
-                        </div>
+                        <ReminderOffsetsEditor
+                          label="Email reminders"
+                          offsets={preferences.emailReminderOffsets}
+                          onChange={(offsets) => handlePreferenceChange('emailReminderOffsets', offsets)}
+                        />
                       </div>
                     </div>
                   )}
@@ -551,27 +526,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, events, isFirstT
                     <div className="pl-2 space-y-4 mt-4">
                       <div className="space-y-2">
                         <div className="text-sm text-[#c9c9d1] mb-2">Remind me before events:</div>
-                        <div className="flex flex-wrap gap-4">
-                          <label className="flex items-center space-x-2 cursor-pointer">
-                            <input
-                              type="checkbox"
-                              className="w-4 h-4 text-[#886FFF] bg-[#0e0e10] border-white border-opacity-20 rounded focus:ring-[#886FFF] focus:ring-2"
-                              checked={preferences.browser1hBefore}
-                              onChange={(e) => handlePreferenceChange('browser1hBefore', e.target.checked)}
-                            />
-                            <span className="text-sm text-[#c9c9d1]">1 hour before</span>
-                          </label>
-
-                          <label className="flex items-center space-x-2 cursor-pointer">
-                            <input
-                              type="checkbox"
-                              className="w-4 h-4 text-[#886FFF] bg-[#0e0e10] border-white border-opacity-20 rounded focus:ring-[#886FFF] focus:ring-2"
-                              checked={preferences.browser10mBefore}
-                              onChange={(e) => handlePreferenceChange('browser10mBefore', e.target.checked)}
-                            />
-                            <span className="text-sm text-[#c9c9d1]">10 minutes before</span>
-                          </label>
-                        </div>
+                        <ReminderOffsetsEditor
+                          label="Browser notification reminders"
+                          offsets={preferences.browserReminderOffsets}
+                          onChange={(offsets) => handlePreferenceChange('browserReminderOffsets', offsets)}
+                        />
                       </div>
                     </div>
                   ) : null}
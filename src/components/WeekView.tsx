@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalendarEvent } from '../types/calendar';
+import {
+  getMinutesIntoDay,
+  getWeekDays,
+  layoutDayEvents,
+  layoutWeekSegments,
+  parseEventDate,
+  startOfDayIn
+} from '../utils/eventLayout';
+import { formatInTimeZone } from '../utils/timezone';
+
+// Height of one hour in the time grid, in pixels
+const HOUR_HEIGHT = 48;
+// Hour the grid is scrolled to when it opens
+const FIRST_VISIBLE_HOUR = 8;
+// Height of one all-day bar row in pixels (h-5 bar plus gap)
+const ROW_HEIGHT = 24;
+
+interface WeekViewProps {
+  currentDate: Date;
+  events: CalendarEvent[];
+  loading: boolean;
+  // Timezone timed events are placed in
+  timeZone: string;
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+const WeekView: React.FC<WeekViewProps> = ({
+  currentDate,
+  events,
+  loading,
+  timeZone,
+  onEventClick
+}) => {
+  const [now, setNow] = useState(new Date());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Move the current-time indicator along every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+    }
+  }, [loading]);
+
+  const weekDays = getWeekDays(currentDate);
+  const today = startOfDayIn(now, timeZone);
+  const todayIndex = weekDays.findIndex(day => day.getTime() === today.getTime());
+
+  const segments = layoutWeekSegments(weekDays, events, timeZone);
+  const allDayLanes = segments.reduce((max, segment) => Math.max(max, segment.lane + 1), 0);
+
+  const formatHour = (hour: number) => {
+    return new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric' });
+  };
+
+  const formatTime = (dateString: string) => {
+    return formatInTimeZone(parseEventDate(dateString), timeZone, {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-[#886FFF]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#1a1a2e] bg-opacity-50 rounded-2xl p-6 backdrop-blur-sm border border-white border-opacity-10">
+      {/* Days of week header */}
+      <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] gap-x-2 mb-2">
+        <div />
+        {weekDays.map((day, dayIndex) => (
+          <div key={dayIndex} className="text-center py-2">
+            <div className="text-[#c9c9d1] font-medium text-sm">
+              {day.toLocaleDateString(undefined, { weekday: 'short' })}
+            </div>
+            <div className={`text-lg font-bold mx-auto w-9 h-9 flex items-center justify-center ${
+              dayIndex === todayIndex ? 'bg-[#886FFF] text-white rounded-full' : ''
+            }`}>
+              {day.getDate()}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Multi-day and all-day events */}
+      {segments.length > 0 && (
+        <div
+          className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] gap-x-2 gap-y-1 mb-2 pb-2 border-b border-white border-opacity-10"
+          style={{ gridTemplateRows: `repeat(${allDayLanes}, ${ROW_HEIGHT - 4}px)` }}
+        >
+          <div className="text-xs text-[#c9c9d1] self-center" style={{ gridRow: `1 / span ${allDayLanes}` }}>
+            All day
+          </div>
+          {segments.map(segment => (
+            <div
+              key={`${segment.event.sourceId}:${segment.event.id}`}
+              className={`text-xs px-2 h-5 leading-5 bg-[#886FFF] bg-opacity-40 truncate cursor-pointer hover:bg-opacity-60 transition-colors duration-200 ${
+                segment.continuesBefore ? 'rounded-l-none' : 'rounded-l'
+              } ${segment.continuesAfter ? 'rounded-r-none' : 'rounded-r'}`}
+              style={{
+                gridColumn: `${segment.startColumn + 2} / span ${segment.span}`,
+                gridRow: segment.lane + 1
+              }}
+              title={segment.event.title}
+              onClick={() => onEventClick(segment.event)}
+            >
+              {segment.event.title}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Hourly time grid */}
+      <div ref={scrollRef} className="max-h-[65vh] overflow-y-auto">
+        <div
+          className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] gap-x-2"
+          style={{ height: 24 * HOUR_HEIGHT }}
+        >
+          {/* Time axis */}
+          <div className="relative">
+            {hours.map(hour => hour > 0 && (
+              <div
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-xs text-[#c9c9d1]"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {formatHour(hour)}
+              </div>
+            ))}
+          </div>
+
+          {weekDays.map((day, dayIndex) => (
+            <div key={dayIndex} className="relative border-l border-white border-opacity-10">
+              {hours.map(hour => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-white border-opacity-5"
+                  style={{ top: hour * HOUR_HEIGHT }}
+                />
+              ))}
+
+              {layoutDayEvents(day, events, timeZone).map(layout => (
+                <div
+                  key={`${layout.event.sourceId}:${layout.event.id}`}
+                  className="absolute px-1 py-0.5 text-xs bg-[#886FFF] bg-opacity-30 border-l-2 border-[#886FFF] rounded overflow-hidden cursor-pointer hover:bg-opacity-50 transition-colors duration-200"
+                  style={{
+                    top: (layout.startMinutes / 60) * HOUR_HEIGHT,
+                    height: ((layout.endMinutes - layout.startMinutes) / 60) * HOUR_HEIGHT - 2,
+                    left: `${(layout.column / layout.columns) * 100}%`,
+                    width: `${100 / layout.columns}%`
+                  }}
+                  title={layout.event.title}
+                  onClick={() => onEventClick(layout.event)}
+                >
+                  <div className="font-medium truncate">{layout.event.title}</div>
+                  <div className="text-[#c9c9d1] truncate">
+                    {formatTime(layout.event.start)} - {formatTime(layout.event.end)}
+                  </div>
+                </div>
+              ))}
+
+              {/* Current time indicator */}
+              {dayIndex === todayIndex && (
+                <div
+                  className="absolute inset-x-0 z-10 pointer-events-none"
+                  style={{ top: (getMinutesIntoDay(now, day, timeZone) / 60) * HOUR_HEIGHT }}
+                >
+                  <div className="absolute -left-1.5 -top-1.5 w-3 h-3 rounded-full bg-red-500" />
+                  <div className="border-t-2 border-red-500" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WeekView;
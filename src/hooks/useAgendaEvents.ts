@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarEvent, CalendarFetchError } from '../types/calendar';
+import calendarSources from '../services/calendarSources';
+import eventCache, { getMonthKey } from '../services/eventCache';
+import { getMonthFetchRange } from '../utils/googleCalendar';
+import { toCalendarFetchError } from '../utils/calendarErrors';
+import { parseEventDate } from '../utils/eventLayout';
+
+// How far ahead the agenda keeps loading before it stops
+const MAX_MONTHS = 12;
+
+interface AgendaMonth {
+  key: string;
+  events: CalendarEvent[];
+}
+
+const addMonths = (date: Date, months: number): Date =>
+  new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+const eventKey = (event: CalendarEvent) => `${event.sourceId}:${event.id}`;
+
+/**
+ * Upcoming events from `from` onwards, loaded one month at a time with the
+ * same month windows and cache as the month view. Call `loadMore` to append
+ * the next month.
+ */
+export const useAgendaEvents = (from: Date) => {
+  const [months, setMonths] = useState<AgendaMonth[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<CalendarFetchError[]>([]);
+  const loadingRef = useRef(false);
+  const fromTime = new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime();
+  const fromDay = useMemo(() => new Date(fromTime), [fromTime]);
+
+  const fetchMonth = useCallback(async (monthDate: Date): Promise<AgendaMonth> => {
+    const key = getMonthKey(monthDate);
+    const range = getMonthFetchRange(monthDate);
+    const cached = await eventCache.readRange(key, range);
+
+    try {
+      const { events, results, errors: sourceErrors } = await calendarSources.fetchRange(range);
+      setErrors(sourceErrors);
+      if (results.length === 0 && sourceErrors.length > 0) {
+        // Every source failed: fall back to whatever was cached for the month
+        return { key, events: cached.events };
+      }
+      await eventCache.writeRange(key, range, events, results.map(result => result.meta.sourceId));
+      return { key, events };
+    } catch (error) {
+      console.error('Failed to load agenda events:', error);
+      setErrors([toCalendarFetchError(error)]);
+      return { key, events: cached.events };
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current || months.length >= MAX_MONTHS) return;
+    loadingRef.current = true;
+    setLoading(true);
+
+    const month = await fetchMonth(addMonths(fromDay, months.length));
+    setMonths(prev => (prev.some(loaded => loaded.key === month.key) ? prev : [...prev, month]));
+
+    loadingRef.current = false;
+    setLoading(false);
+  }, [fetchMonth, fromDay, months.length]);
+
+  // Reload every month already shown, e.g. after an error
+  const retry = useCallback(async () => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setLoading(true);
+
+    const reloaded = await Promise.all(months.map(month => {
+      const [year, monthNumber] = month.key.split('-').map(Number);
+      return fetchMonth(new Date(year, monthNumber - 1, 1));
+    }));
+    setMonths(reloaded);
+
+    loadingRef.current = false;
+    setLoading(false);
+  }, [fetchMonth, months]);
+
+  // Start over when the agenda is opened on another date
+  useEffect(() => {
+    setMonths([]);
+  }, [fromDay]);
+
+  const events = useMemo(() => {
+    if (months.length === 0) return [];
+
+    // Month windows overlap by their buffer days, so drop duplicates, and stop
+    // at the end of the last loaded month so later events don't show up early
+    const loadedUntil = addMonths(fromDay, months.length).getTime();
+    const byKey = new Map<string, CalendarEvent>();
+    months.forEach(month => month.events.forEach(event => byKey.set(eventKey(event), event)));
+
+    return Array.from(byKey.values())
+      .filter(event => {
+        const start = parseEventDate(event.start).getTime();
+        const end = event.end ? parseEventDate(event.end).getTime() : start;
+        return end > fromTime && start < loadedUntil;
+      })
+      .sort((a, b) => parseEventDate(a.start).getTime() - parseEventDate(b.start).getTime());
+  }, [months, fromDay, fromTime]);
+
+  return {
+    events,
+    loading,
+    errors,
+    // No source answered, so the agenda only shows cached events
+    allFailed: errors.length > 0 && errors.length >= calendarSources.getSources().length,
+    hasMore: months.length < MAX_MONTHS,
+    // Nothing has been loaded yet
+    initialLoading: months.length === 0,
+    loadMore,
+    retry
+  };
+};
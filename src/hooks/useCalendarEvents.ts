@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CalendarEvent, CalendarFetchError } from '../types/calendar';
+import calendarSources from '../services/calendarSources';
+import eventCache, { applyEventDiff, getMonthKey, hasChanges } from '../services/eventCache';
+import { getMonthFetchRange } from '../utils/googleCalendar';
+import { toCalendarFetchError } from '../utils/calendarErrors';
+
+interface CalendarEventsState {
+  events: CalendarEvent[];
+  // True while nothing (not even cached data) is available to show
+  loading: boolean;
+  // True while cached events are shown and fresh ones are being fetched
+  revalidating: boolean;
+  // Sources that failed on the last refresh; `events` then holds the last successful data
+  errors: CalendarFetchError[];
+  // When the shown events were last fetched successfully, or null if never
+  lastUpdated: number | null;
+}
+
+/**
+ * Load the events of the month containing `date` with a stale-while-revalidate
+ * strategy: cached events from IndexedDB are shown immediately, then the
+ * sources are queried in the background and only the changes are applied.
+ */
+export const useCalendarEvents = (date: Date) => {
+  const monthKey = getMonthKey(date);
+  const [state, setState] = useState<CalendarEventsState>({
+    events: [],
+    loading: true,
+    revalidating: false,
+    errors: [],
+    lastUpdated: null
+  });
+  // Guards against responses for a month the user already navigated away from
+  const activeKey = useRef(monthKey);
+  // In-memory fallback for browsers where IndexedDB is unavailable
+  const lastSuccessful = useRef(new Map<string, { events: CalendarEvent[]; fetchedAt: number }>());
+
+  const load = useCallback(async (key: string) => {
+    const [year, month] = key.split('-').map(Number);
+    const range = getMonthFetchRange(new Date(year, month - 1, 1));
+
+    let cached = await eventCache.readRange(key, range);
+    if (activeKey.current !== key) return;
+
+    const remembered = lastSuccessful.current.get(key);
+    if (cached.fetchedAt === null && remembered) {
+      cached = { events: remembered.events, fetchedAt: remembered.fetchedAt };
+    }
+
+    setState(prev => ({
+      events: cached.events,
+      loading: cached.events.length === 0 && cached.fetchedAt === null,
+      revalidating: true,
+      errors: prev.errors,
+      lastUpdated: cached.fetchedAt
+    }));
+
+    try {
+      const { events, results, errors } = await calendarSources.fetchRange(range);
+      if (results.length === 0 && errors.length > 0) {
+        // Every source failed: keep showing the last successful data
+        if (activeKey.current !== key) return;
+        setState(prev => ({ ...prev, loading: false, revalidating: false, errors }));
+        return;
+      }
+
+      const sourceIds = results.map(result => result.meta.sourceId);
+      const diff = await eventCache.writeRange(key, range, events, sourceIds);
+      if (activeKey.current !== key) return;
+
+      const fetchedAt = Date.now();
+      setState(prev => {
+        const nextEvents = hasChanges(diff) ? applyEventDiff(prev.events, diff) : prev.events;
+        lastSuccessful.current.set(key, { events: nextEvents, fetchedAt });
+        return {
+          events: nextEvents,
+          loading: false,
+          revalidating: false,
+          errors,
+          lastUpdated: fetchedAt
+        };
+      });
+    } catch (error) {
+      console.error('Failed to load events:', error);
+      if (activeKey.current !== key) return;
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        revalidating: false,
+        errors: [toCalendarFetchError(error)]
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    activeKey.current = monthKey;
+    load(monthKey);
+  }, [monthKey, load]);
+
+  const retry = useCallback(() => load(activeKey.current), [load]);
+
+  // No source answered, so `events` is entirely last-successful data
+  const allFailed = state.errors.length > 0 &&
+    state.errors.length >= calendarSources.getSources().length;
+
+  return { ...state, allFailed, retry };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { TIMEZONE_CHANGE_EVENT, getDisplayTimeZone } from '../utils/timezone';
+
+// Current display timezone, updated when the user changes it in the settings
+export const useDisplayTimeZone = (): string => {
+  const [timeZone, setTimeZone] = useState(getDisplayTimeZone);
+
+  useEffect(() => {
+    const handleChange = () => setTimeZone(getDisplayTimeZone());
+    window.addEventListener(TIMEZONE_CHANGE_EVENT, handleChange);
+    // Keep other tabs in sync as well
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(TIMEZONE_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  return timeZone;
+};
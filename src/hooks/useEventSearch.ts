@@ -0,0 +1,90 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { CalendarDateRange, CalendarEvent } from '../types/calendar';
+import calendarSources from '../services/calendarSources';
+import eventCache from '../services/eventCache';
+import { buildSearchIndex, searchEvents } from '../utils/eventSearch';
+
+export type SearchRangePreset = 'next3Months' | 'next12Months' | 'past12Months' | 'all';
+
+export const SEARCH_RANGE_LABELS: Record<SearchRangePreset, string> = {
+  next3Months: 'Next 3 months',
+  next12Months: 'Next 12 months',
+  past12Months: 'Past 12 months',
+  all: 'Past and next 12 months'
+};
+
+// Re-fetch a search range from the sources when its cached copy is older than this
+const REFRESH_AFTER_MS = 15 * 60 * 1000;
+
+// Ranges only change once a day, so that refreshes of the same search reuse its sync token
+const getSearchRange = (preset: SearchRangePreset): CalendarDateRange => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const monthsFromToday = (months: number) =>
+    new Date(today.getFullYear(), today.getMonth() + months, today.getDate());
+  // Midnight at the end of today
+  const endOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+  switch (preset) {
+    case 'next3Months':
+      return { timeMin: today, timeMax: monthsFromToday(3) };
+    case 'next12Months':
+      return { timeMin: today, timeMax: monthsFromToday(12) };
+    case 'past12Months':
+      return { timeMin: monthsFromToday(-12), timeMax: endOfToday };
+    case 'all':
+      return { timeMin: monthsFromToday(-12), timeMax: monthsFromToday(12) };
+  }
+};
+
+/**
+ * Search the cached events of a date range. The range is read from the event
+ * cache right away and refreshed from the sources in the background, so that
+ * months the user never opened are searchable too.
+ */
+export const useEventSearch = (query: string, preset: SearchRangePreset, enabled: boolean) => {
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    const key = `search:${preset}`;
+    const range = getSearchRange(preset);
+
+    const load = async () => {
+      const cached = await eventCache.readRange(key, range);
+      if (cancelled) return;
+      setEvents(cached.events);
+
+      if (cached.fetchedAt !== null && Date.now() - cached.fetchedAt < REFRESH_AFTER_MS) return;
+
+      setRefreshing(true);
+      try {
+        const { events: fetched, results } = await calendarSources.fetchRange(range);
+        if (results.length > 0) {
+          await eventCache.writeRange(key, range, fetched, results.map(result => result.meta.sourceId));
+          // Read back so that cached events of sources that failed are kept,
+          // unless the cache is unavailable in this browser
+          const refreshed = await eventCache.readRange(key, range);
+          if (!cancelled) setEvents(refreshed.fetchedAt !== null ? refreshed.events : fetched);
+        }
+      } catch (error) {
+        console.error('Failed to refresh search range:', error);
+      } finally {
+        if (!cancelled) setRefreshing(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [preset, enabled]);
+
+  const index = useMemo(() => buildSearchIndex(events), [events]);
+  const results = useMemo(() => searchEvents(index, deferredQuery), [index, deferredQuery]);
+
+  return { results, refreshing, eventCount: events.length };
+};
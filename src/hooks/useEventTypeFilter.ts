@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CalendarEvent } from '../types/calendar';
+import { createEventTypeResolver } from '../utils/eventTypes';
+
+const STORAGE_KEY = 'monad-pulse-hidden-event-types';
+// Query parameter holding the hidden event types, repeated once per type
+const URL_PARAM = 'hide';
+
+const readStoredTypes = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(type => typeof type === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Event types the user chose to hide. Types are hidden rather than shown so
+ * that new categories appear by default. The URL wins over localStorage, so
+ * shared links show the same filter; otherwise the last used filter is restored.
+ */
+export const useEventTypeFilter = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlTypes = searchParams.getAll(URL_PARAM);
+  const urlKey = urlTypes.join('\n');
+
+  const hiddenTypes = useMemo(
+    () => new Set(urlKey ? urlKey.split('\n') : []),
+    [urlKey]
+  );
+
+  const setHiddenTypes = useCallback((types: Set<string>) => {
+    const sorted = Array.from(types).sort((a, b) => a.localeCompare(b));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+    // Start from the current URL rather than this render's params, so that
+    // updates made by other filters in the same tick are kept
+    setSearchParams(() => {
+      const next = new URLSearchParams(window.location.search);
+      next.delete(URL_PARAM);
+      sorted.forEach(type => next.append(URL_PARAM, type));
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Restore the stored filter on links that don't carry one, and remember filters from links.
+  // Only on first render: later changes go through setHiddenTypes
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    if (urlKey) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(urlKey.split('\n')));
+      return;
+    }
+    const stored = readStoredTypes();
+    if (stored.length > 0) {
+      setHiddenTypes(new Set(stored));
+    }
+  }, [urlKey, setHiddenTypes]);
+
+  const toggleType = useCallback((type: string) => {
+    const next = new Set(hiddenTypes);
+    if (next.has(type)) {
+      next.delete(type);
+    } else {
+      next.add(type);
+    }
+    setHiddenTypes(next);
+  }, [hiddenTypes, setHiddenTypes]);
+
+  const showAll = useCallback(() => setHiddenTypes(new Set()), [setHiddenTypes]);
+
+  const filterEvents = useCallback((events: CalendarEvent[]) => {
+    if (hiddenTypes.size === 0) return events;
+    const getType = createEventTypeResolver(events);
+    return events.filter(event => !hiddenTypes.has(getType(event)));
+  }, [hiddenTypes]);
+
+  return { hiddenTypes, toggleType, showAll, filterEvents };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useMemo, useState } from 'react';
+import favoritesService, { FAVORITES_CHANGE_EVENT } from '../services/favoritesService';
+
+// Starred events, updated whenever an event is starred or unstarred anywhere in the app
+export const useFavorites = () => {
+  const [favorites, setFavorites] = useState(favoritesService.getFavorites);
+
+  useEffect(() => {
+    const handleChange = () => setFavorites(favoritesService.getFavorites());
+    window.addEventListener(FAVORITES_CHANGE_EVENT, handleChange);
+    // Keep other tabs in sync as well
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(FAVORITES_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  const favoriteIds = useMemo(() => new Set(favorites.map(favorite => favorite.eventId)), [favorites]);
+
+  return { favorites, favoriteIds, toggleFavorite: favoritesService.toggleFavorite };
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { CalendarEvent } from '../types/calendar';
+import eventCache from '../services/eventCache';
+
+interface LinkedEventState {
+  id: string;
+  event: CalendarEvent | null;
+  notFound: boolean;
+}
+
+/**
+ * Event of an /event/:id link that is not among the loaded events, e.g. one
+ * in another month, looked up in the cache. A miss is only reported as not
+ * found once `settled` is true, i.e. the calendar finished fetching: a new
+ * event only reaches the cache with that fetch.
+ */
+export const useLinkedEvent = (id: string | undefined, isLoaded: boolean, settled: boolean) => {
+  const [state, setState] = useState<LinkedEventState | null>(null);
+
+  useEffect(() => {
+    if (!id || isLoaded) return;
+    let cancelled = false;
+
+    eventCache.findEvent(id).then(event => {
+      if (cancelled) return;
+      if (event) {
+        setState({ id, event, notFound: false });
+      } else if (settled) {
+        setState({ id, event: null, notFound: true });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, isLoaded, settled]);
+
+  // Ignore the result of an earlier link
+  const current = id && !isLoaded && state?.id === id ? state : null;
+  return { linkedEvent: current?.event || null, notFound: current?.notFound || false };
+};
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarEvent } from '../types/calendar';
+import notificationService, { PREFERENCES_CHANGE_EVENT } from '../services/notificationService';
+import type { EventPreference, UserPreferences } from '../services/notificationService';
+import localReminderService from '../services/localReminderService';
+import { useFavorites } from './useFavorites';
+import { createEventTypeResolver } from '../utils/eventTypes';
+import { LocalReminder, getDueReminders, getReminderKey } from '../utils/localReminders';
+
+// How often due reminders are looked for
+const CHECK_INTERVAL_MS = 30 * 1000;
+// With a push subscription, server push gets this long to arrive before the page steps in
+const PUSH_GRACE_MS = 2 * 60 * 1000;
+
+interface ReminderSettings {
+  preferences: UserPreferences;
+  // By event type
+  eventPreferences: Map<string, EventPreference>;
+}
+
+/**
+ * Browser reminders for the loaded events, shown by the page while it is open.
+ * This covers browsers where push doesn't work (Safari outside a home screen
+ * app, Brave with Shields up, a failed VAPID key fetch). Where push does work
+ * it only steps in for reminders the server didn't deliver in time.
+ *
+ * Reminders go out as system notifications when allowed, otherwise they are
+ * returned as `toasts` for the page to show.
+ */
+export const useLocalReminders = (events: CalendarEvent[], onOpenEvent: (eventId: string) => void) => {
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [pushActive, setPushActive] = useState(false);
+  const [toasts, setToasts] = useState<LocalReminder[]>([]);
+  const { favoriteIds } = useFavorites();
+  const onOpenEventRef = useRef(onOpenEvent);
+  onOpenEventRef.current = onOpenEvent;
+
+  const resolveEventType = useMemo(() => createEventTypeResolver(events), [events]);
+  const typesKey = useMemo(() => notificationService.getUniqueEventTypes(events).join('\n'), [events]);
+
+  // Load the reminder settings, and again when they are saved or new event types are loaded
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const preferences = await notificationService.getPreferences();
+      const eventPreferences = await notificationService.getEventPreferences(typesKey ? typesKey.split('\n') : []);
+      const subscribed = await notificationService.isSubscribed();
+      if (cancelled) return;
+      setSettings({
+        preferences,
+        eventPreferences: new Map(eventPreferences.map(preference => [preference.event_type, preference]))
+      });
+      setPushActive(subscribed);
+    };
+
+    load();
+    window.addEventListener(PREFERENCES_CHANGE_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PREFERENCES_CHANGE_EVENT, load);
+    };
+  }, [typesKey]);
+
+  // Reminders delivered by push don't need to be shown again
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    const handleMessage = (message: MessageEvent) => {
+      const { data } = message;
+      if (data?.type === 'REMINDER_DELIVERED' && typeof data.eventId === 'string' && typeof data.minutesBefore === 'number') {
+        localReminderService.markDelivered(getReminderKey(data.eventId, data.minutesBefore));
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Browser reminder offsets of an event, following its type's settings; starred events always get reminders
+  const getOffsets = useCallback((event: CalendarEvent): number[] => {
+    if (!settings) return [];
+    const { preferences, eventPreferences } = settings;
+    const typePreference = eventPreferences.get(resolveEventType(event));
+    const enabled = favoriteIds.has(event.id) ||
+      (typePreference ? typePreference.is_enabled : preferences.notifyAllEvents);
+    if (!enabled) return [];
+    return typePreference ? typePreference.browser_reminder_offsets : preferences.browserReminderOffsets;
+  }, [settings, resolveEventType, favoriteIds]);
+
+  useEffect(() => {
+    if (!settings?.preferences.notifyBrowser) return;
+    const { quietHours, timezone } = settings.preferences;
+
+    const check = () => {
+      const now = new Date(Date.now() - (pushActive ? PUSH_GRACE_MS : 0));
+      getDueReminders(events, getOffsets, quietHours, timezone, now).forEach(reminder => {
+        if (localReminderService.wasDelivered(reminder.key)) return;
+        localReminderService.markDelivered(reminder.key);
+        localReminderService
+          .showNotification(reminder, timezone, () => onOpenEventRef.current(reminder.event.id))
+          .then(shown => {
+            if (!shown) {
+              setToasts(current => [...current.filter(toast => toast.key !== reminder.key), reminder]);
+            }
+          });
+      });
+    };
+
+    check();
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [events, settings, pushActive, getOffsets]);
+
+  const dismissToast = useCallback((key: string) => {
+    setToasts(current => current.filter(toast => toast.key !== key));
+  }, []);
+
+  return { toasts, dismissToast };
+};
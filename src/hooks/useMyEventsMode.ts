@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+const STORAGE_KEY = 'monad-pulse-my-events';
+// Query parameter set while only starred events are shown
+const URL_PARAM = 'mine';
+
+/**
+ * Whether the calendar only shows starred events. Like the event type filter,
+ * the mode is kept in the URL so that links show the same view, and the last
+ * used mode is restored on links that don't set it.
+ */
+export const useMyEventsMode = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const myEventsOnly = searchParams.get(URL_PARAM) === '1';
+
+  const setMyEventsOnly = useCallback((enabled: boolean) => {
+    localStorage.setItem(STORAGE_KEY, String(enabled));
+    // Start from the current URL rather than this render's params, so that
+    // updates made by other filters in the same tick are kept
+    setSearchParams(() => {
+      const next = new URLSearchParams(window.location.search);
+      if (enabled) {
+        next.set(URL_PARAM, '1');
+      } else {
+        next.delete(URL_PARAM);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Only on first render: later changes go through setMyEventsOnly
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    if (myEventsOnly) {
+      localStorage.setItem(STORAGE_KEY, 'true');
+    } else if (localStorage.getItem(STORAGE_KEY) === 'true') {
+      setMyEventsOnly(true);
+    }
+  }, [myEventsOnly, setMyEventsOnly]);
+
+  return { myEventsOnly, setMyEventsOnly };
+};
@@ -0,0 +1,52 @@
+import api from './api';
+
+/**
+ * Personal ICS feed of the events a user has enabled notifications for.
+ * The feed URL contains a secret token, so anyone with the URL can read it;
+ * regenerating the token invalidates the old URL.
+ */
+export interface CalendarFeed {
+  url: string;
+  createdAt: string | null;
+}
+
+interface CalendarFeedResponse {
+  url?: string;
+  created_at?: string;
+}
+
+const toCalendarFeed = (response: CalendarFeedResponse | null): CalendarFeed => {
+  if (!response || typeof response.url !== 'string') {
+    throw new Error('Invalid calendar feed response');
+  }
+  return {
+    url: response.url,
+    createdAt: response.created_at || null
+  };
+};
+
+const calendarFeedService = {
+  // Get the user's feed, creating it on first use
+  async getFeed(): Promise<CalendarFeed> {
+    try {
+      const response = await api.get<CalendarFeedResponse>('/api/users/me/calendar-feed');
+      return toCalendarFeed(response);
+    } catch (error) {
+      console.error('[CalendarFeed] Error loading calendar feed:', error);
+      throw error;
+    }
+  },
+
+  // Replace the feed token, so that the previous URL stops working
+  async regenerateToken(): Promise<CalendarFeed> {
+    try {
+      const response = await api.post<CalendarFeedResponse>('/api/users/me/calendar-feed/token');
+      return toCalendarFeed(response);
+    } catch (error) {
+      console.error('[CalendarFeed] Error regenerating calendar feed token:', error);
+      throw error;
+    }
+  }
+};
+
+export default calendarFeedService;
@@ -0,0 +1,205 @@
+import api from './api';
+import {
+  CalendarDateRange,
+  CalendarEvent,
+  CalendarFetchError,
+  CalendarSource,
+  CalendarSourceResult
+} from '../types/calendar';
+import { syncGoogleCalendarRange } from './googleCalendarSync';
+import { DEFAULT_GOOGLE_CALENDAR, GoogleCalendarConfig } from '../utils/googleCalendar';
+import { parseIcsCalendar } from '../utils/icsParser';
+import { toCalendarFetchError } from '../utils/calendarErrors';
+
+export interface CombinedCalendarResult {
+  events: CalendarEvent[];
+  results: CalendarSourceResult[];
+  // One entry per source that failed
+  errors: CalendarFetchError[];
+}
+
+// Check whether an event overlaps the requested time window
+const isInRange = (event: CalendarEvent, range: CalendarDateRange): boolean => {
+  const start = new Date(event.start).getTime();
+  const end = new Date(event.end || event.start).getTime();
+  return start <= range.timeMax.getTime() && end >= range.timeMin.getTime();
+};
+
+const buildResult = (source: CalendarSource, events: CalendarEvent[]): CalendarSourceResult => ({
+  events: events.map(event => ({ ...event, sourceId: source.id })),
+  meta: {
+    sourceId: source.id,
+    sourceName: source.name,
+    fetchedAt: Date.now(),
+    eventCount: events.length
+  }
+});
+
+// Google Calendar public calendar, queried with an API key and kept up to date incrementally
+export const createGoogleCalendarSource = (
+  config: GoogleCalendarConfig,
+  options: { id?: string; name?: string } = {}
+): CalendarSource => {
+  const source: CalendarSource = {
+    id: options.id || `google:${config.calendarId}`,
+    name: options.name || 'Google Calendar',
+    async fetchRange(range) {
+      const { events } = await syncGoogleCalendarRange(range, config, source.id);
+      return buildResult(source, events);
+    }
+  };
+  return source;
+};
+
+// A JSON file (or inline list) of CalendarEvent objects, filtered client-side
+export const createStaticJsonSource = (options: {
+  id: string;
+  name: string;
+  url?: string;
+  events?: CalendarEvent[];
+}): CalendarSource => {
+  const source: CalendarSource = {
+    id: options.id,
+    name: options.name,
+    async fetchRange(range) {
+      let events = options.events || [];
+
+      if (options.url) {
+        const response = await fetch(options.url);
+        if (!response.ok) {
+          throw new Error(`Failed to load ${options.url}: ${response.status} ${response.statusText}`);
+        }
+        const data = await response.json();
+        events = Array.isArray(data) ? data : data.events || [];
+      }
+
+      return buildResult(source, events.filter(event => isInRange(event, range)));
+    }
+  };
+  return source;
+};
+
+// An iCalendar (.ics) feed; recurring events are expanded inside the requested window
+export const createIcsFeedSource = (options: {
+  id?: string;
+  name?: string;
+  url: string;
+}): CalendarSource => {
+  const source: CalendarSource = {
+    id: options.id || `ics:${options.url}`,
+    name: options.name || new URL(options.url, window.location.origin).hostname,
+    async fetchRange(range) {
+      const response = await fetch(options.url);
+      if (!response.ok) {
+        throw new Error(`Failed to load ${options.url}: ${response.status} ${response.statusText}`);
+      }
+      const text = await response.text();
+      if (!text.includes('BEGIN:VCALENDAR')) {
+        throw new SyntaxError(`${options.url} is not an iCalendar feed`);
+      }
+      return buildResult(source, parseIcsCalendar(text, range));
+    }
+  };
+  return source;
+};
+
+// Events served by our backend, e.g. GET /api/events?timeMin=...&timeMax=...
+export const createApiCalendarSource = (options: {
+  id: string;
+  name: string;
+  endpoint: string;
+}): CalendarSource => {
+  const source: CalendarSource = {
+    id: options.id,
+    name: options.name,
+    async fetchRange(range) {
+      const params = new URLSearchParams({
+        timeMin: range.timeMin.toISOString(),
+        timeMax: range.timeMax.toISOString()
+      });
+      const separator = options.endpoint.includes('?') ? '&' : '?';
+      const events = await api.get<CalendarEvent[]>(`${options.endpoint}${separator}${params}`);
+      return buildResult(source, Array.isArray(events) ? events : []);
+    }
+  };
+  return source;
+};
+
+// Combine several calendar sources into one event list
+export const createCalendarSourceRegistry = (initialSources: CalendarSource[] = []) => {
+  const sources = new Map<string, CalendarSource>();
+  initialSources.forEach(source => sources.set(source.id, source));
+
+  return {
+    register(source: CalendarSource) {
+      sources.set(source.id, source);
+    },
+
+    unregister(sourceId: string) {
+      sources.delete(sourceId);
+    },
+
+    getSources(): CalendarSource[] {
+      return Array.from(sources.values());
+    },
+
+    // Fetch a range from every source. A failing source is reported in `errors`
+    // and skipped, so that one broken partner calendar does not hide everything else.
+    async fetchRange(range: CalendarDateRange): Promise<CombinedCalendarResult> {
+      const activeSources = Array.from(sources.values());
+      const settled = await Promise.allSettled(
+        activeSources.map(source => source.fetchRange(range))
+      );
+
+      const results: CalendarSourceResult[] = [];
+      const errors: CalendarFetchError[] = [];
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          results.push(outcome.value);
+        } else {
+          console.error(`Error fetching events from ${activeSources[index].id}:`, outcome.reason);
+          errors.push(toCalendarFetchError(outcome.reason, activeSources[index].id));
+        }
+      });
+
+      // De-duplicate events that several sources return for the same calendar
+      const seen = new Set<string>();
+      const events = results
+        .flatMap(result => result.events)
+        .filter(event => {
+          const key = `${event.sourceId}:${event.id}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+      return { events, results, errors };
+    }
+  };
+};
+
+export type CalendarSourceRegistry = ReturnType<typeof createCalendarSourceRegistry>;
+
+const parseEnvList = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+// Partner Google calendars, configured as a comma-separated list of calendar IDs
+const partnerCalendarIds = parseEnvList(import.meta.env.VITE_PARTNER_GOOGLE_CALENDAR_IDS);
+
+// Ecosystem .ics feeds, configured as a comma-separated list of URLs
+const icsFeedUrls = parseEnvList(import.meta.env.VITE_ICS_FEED_URLS);
+
+// Default registry used by the app: the Monad Pulse calendar plus any partner calendars and feeds
+const calendarSources = createCalendarSourceRegistry([
+  createGoogleCalendarSource(DEFAULT_GOOGLE_CALENDAR, { id: 'google:monad-pulse', name: 'Monad Pulse' }),
+  ...partnerCalendarIds.map(calendarId =>
+    createGoogleCalendarSource({ ...DEFAULT_GOOGLE_CALENDAR, calendarId })
+  ),
+  ...icsFeedUrls.map(url => createIcsFeedSource({ url }))
+]);
+
+export default calendarSources;
@@ -0,0 +1,330 @@
+import { CalendarDateRange, CalendarEvent } from '../types/calendar';
+
+/**
+ * Client-side event store backed by IndexedDB.
+ *
+ * Events are stored individually (indexed by start time) so that the buffer
+ * days fetched around one month are also available to its neighbours. A
+ * separate store remembers when each month range was last fetched.
+ */
+
+const DB_NAME = 'monad-pulse';
+const DB_VERSION = 2;
+const EVENTS_STORE = 'events';
+const RANGES_STORE = 'ranges';
+const SYNC_STORE = 'sync';
+// How far back to look for events that started before a range but still overlap it
+const MAX_EVENT_LENGTH_MS = 31 * 24 * 60 * 60 * 1000;
+// Sync states kept at most, and how long an unused one is kept. Callers whose
+// ranges move over time would otherwise leave them behind.
+const MAX_SYNC_STATES = 50;
+const SYNC_STATE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CachedEventRecord {
+  cacheKey: string;
+  sourceId: string;
+  startTime: number;
+  endTime: number;
+  event: CalendarEvent;
+}
+
+interface CachedRangeRecord {
+  key: string;
+  timeMin: number;
+  timeMax: number;
+  fetchedAt: number;
+}
+
+export interface CachedRange {
+  events: CalendarEvent[];
+  // When the range was last fetched from the network, or null if never
+  fetchedAt: number | null;
+}
+
+// Incremental sync bookkeeping for one source and time window. The window's
+// events themselves are only kept in the events store.
+export interface SyncState {
+  key: string;
+  syncToken: string;
+  timeMin: number;
+  timeMax: number;
+  syncedAt: number;
+}
+
+export interface EventDiff {
+  added: CalendarEvent[];
+  updated: CalendarEvent[];
+  removed: CalendarEvent[];
+}
+
+const getCacheKey = (event: CalendarEvent): string => `${event.sourceId || 'default'}:${event.id}`;
+
+const toRecord = (event: CalendarEvent): CachedEventRecord => {
+  const startTime = new Date(event.start).getTime();
+  const endTime = new Date(event.end || event.start).getTime();
+  return {
+    cacheKey: getCacheKey(event),
+    sourceId: event.sourceId || 'default',
+    startTime,
+    endTime: isNaN(endTime) ? startTime : endTime,
+    event
+  };
+};
+
+const sortByStart = (events: CalendarEvent[]): CalendarEvent[] =>
+  events.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+// Key of the month a range was requested for, e.g. "2025-03"
+export const getMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Compare two event lists by source and ID
+export const diffEvents = (previous: CalendarEvent[], next: CalendarEvent[]): EventDiff => {
+  const previousByKey = new Map(previous.map(event => [getCacheKey(event), event]));
+  const nextKeys = new Set(next.map(getCacheKey));
+
+  const diff: EventDiff = { added: [], updated: [], removed: [] };
+  next.forEach(event => {
+    const existing = previousByKey.get(getCacheKey(event));
+    if (!existing) {
+      diff.added.push(event);
+    } else if (JSON.stringify(existing) !== JSON.stringify(event)) {
+      diff.updated.push(event);
+    }
+  });
+  previous.forEach(event => {
+    if (!nextKeys.has(getCacheKey(event))) {
+      diff.removed.push(event);
+    }
+  });
+
+  return diff;
+};
+
+// Keys of sync states to drop: those not synced for a while, and all but the most recently synced ones
+export const getStaleSyncKeys = (states: SyncState[], now: number = Date.now()): string[] => {
+  const current = states
+    .filter(state => now - state.syncedAt <= SYNC_STATE_TTL_MS)
+    .sort((a, b) => b.syncedAt - a.syncedAt);
+  const kept = new Set(current.slice(0, MAX_SYNC_STATES).map(state => state.key));
+  return states.filter(state => !kept.has(state.key)).map(state => state.key);
+};
+
+export const hasChanges = (diff: EventDiff): boolean =>
+  diff.added.length > 0 || diff.updated.length > 0 || diff.removed.length > 0;
+
+// Apply a diff to an event list (e.g. the events currently on screen)
+export const applyEventDiff = (events: CalendarEvent[], diff: EventDiff): CalendarEvent[] => {
+  const changed = new Map([...diff.added, ...diff.updated].map(event => [getCacheKey(event), event]));
+  const removed = new Set(diff.removed.map(getCacheKey));
+
+  const result = events
+    .filter(event => !removed.has(getCacheKey(event)))
+    .map(event => {
+      const key = getCacheKey(event);
+      const replacement = changed.get(key);
+      changed.delete(key);
+      return replacement || event;
+    });
+
+  return sortByStart([...result, ...changed.values()]);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+          const store = db.createObjectStore(EVENTS_STORE, { keyPath: 'cacheKey' });
+          store.createIndex('startTime', 'startTime');
+        }
+        if (!db.objectStoreNames.contains(RANGES_STORE)) {
+          db.createObjectStore(RANGES_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) {
+          db.createObjectStore(SYNC_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// All cached records overlapping a range
+const readRecords = async (store: IDBObjectStore, range: CalendarDateRange): Promise<CachedEventRecord[]> => {
+  const timeMin = range.timeMin.getTime();
+  const timeMax = range.timeMax.getTime();
+  const keyRange = IDBKeyRange.bound(timeMin - MAX_EVENT_LENGTH_MS, timeMax);
+  const records = await promisifyRequest<CachedEventRecord[]>(store.index('startTime').getAll(keyRange));
+  return records.filter(record => record.endTime >= timeMin);
+};
+
+const eventCache = {
+  // Read cached events overlapping a range, plus when that range was last fetched
+  async readRange(key: string, range: CalendarDateRange): Promise<CachedRange> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([EVENTS_STORE, RANGES_STORE], 'readonly');
+      const [records, rangeRecord] = await Promise.all([
+        readRecords(transaction.objectStore(EVENTS_STORE), range),
+        promisifyRequest<CachedRangeRecord | undefined>(transaction.objectStore(RANGES_STORE).get(key))
+      ]);
+
+      return {
+        events: sortByStart(records.map(record => record.event)),
+        fetchedAt: rangeRecord ? rangeRecord.fetchedAt : null
+      };
+    } catch (error) {
+      console.warn('[EventCache] Unable to read cached events:', error);
+      return { events: [], fetchedAt: null };
+    }
+  },
+
+  /**
+   * Store freshly fetched events for a range and return what changed.
+   * Only events from `sourceIds` are considered authoritative, so cached
+   * events of a source that failed to load are kept.
+   */
+  async writeRange(
+    key: string,
+    range: CalendarDateRange,
+    events: CalendarEvent[],
+    sourceIds: string[]
+  ): Promise<EventDiff> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([EVENTS_STORE, RANGES_STORE], 'readwrite');
+      const eventsStore = transaction.objectStore(EVENTS_STORE);
+
+      const cached = (await readRecords(eventsStore, range))
+        .filter(record => sourceIds.includes(record.sourceId))
+        .map(record => record.event);
+      const diff = diffEvents(cached, events);
+
+      diff.removed.forEach(event => eventsStore.delete(getCacheKey(event)));
+      [...diff.added, ...diff.updated].forEach(event => eventsStore.put(toRecord(event)));
+
+      const rangeRecord: CachedRangeRecord = {
+        key,
+        timeMin: range.timeMin.getTime(),
+        timeMax: range.timeMax.getTime(),
+        fetchedAt: Date.now()
+      };
+      transaction.objectStore(RANGES_STORE).put(rangeRecord);
+
+      await transactionDone(transaction);
+      return diff;
+    } catch (error) {
+      console.warn('[EventCache] Unable to store events:', error);
+      // Without a cache, treat everything as new
+      return { added: events, updated: [], removed: [] };
+    }
+  },
+
+  // Look up a cached event by its ID in any source, e.g. for a deep link
+  async findEvent(id: string): Promise<CalendarEvent | null> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE);
+      const records = await promisifyRequest<CachedEventRecord[]>(store.getAll());
+      return records.find(record => record.event.id === id)?.event || null;
+    } catch (error) {
+      console.warn('[EventCache] Unable to look up event:', error);
+      return null;
+    }
+  },
+
+  // Cached events of one source overlapping a range, or null if the cache can't be read
+  async readSourceEvents(sourceId: string, range: CalendarDateRange): Promise<CalendarEvent[] | null> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE);
+      const records = await readRecords(store, range);
+      return sortByStart(records.filter(record => record.sourceId === sourceId).map(record => record.event));
+    } catch (error) {
+      console.warn('[EventCache] Unable to read cached events:', error);
+      return null;
+    }
+  },
+
+  async readSyncState(key: string): Promise<SyncState | null> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(SYNC_STORE, 'readonly').objectStore(SYNC_STORE);
+      const state = await promisifyRequest<SyncState | undefined>(store.get(key));
+      return state || null;
+    } catch (error) {
+      console.warn('[EventCache] Unable to read sync state:', error);
+      return null;
+    }
+  },
+
+  async writeSyncState(state: SyncState): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(SYNC_STORE, 'readwrite');
+      const store = transaction.objectStore(SYNC_STORE);
+      store.put(state);
+      const states = await promisifyRequest<SyncState[]>(store.getAll());
+      getStaleSyncKeys(states).forEach(key => store.delete(key));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('[EventCache] Unable to store sync state:', error);
+    }
+  },
+
+  async deleteSyncState(key: string): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(SYNC_STORE, 'readwrite');
+      transaction.objectStore(SYNC_STORE).delete(key);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('[EventCache] Unable to delete sync state:', error);
+    }
+  },
+
+  // Remove all cached events, ranges and sync tokens
+  async clear(): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([EVENTS_STORE, RANGES_STORE, SYNC_STORE], 'readwrite');
+      transaction.objectStore(EVENTS_STORE).clear();
+      transaction.objectStore(RANGES_STORE).clear();
+      transaction.objectStore(SYNC_STORE).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('[EventCache] Unable to clear cache:', error);
+    }
+  }
+};
+
+export default eventCache;
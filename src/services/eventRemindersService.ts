@@ -0,0 +1,106 @@
+import api from './api';
+import { CalendarEvent } from '../types/calendar';
+import { ReminderChannel } from '../utils/reminders';
+
+/**
+ * Reminders for one specific event, in addition to the per-type settings.
+ * The server sends them even when the event's type is disabled.
+ */
+export interface EventReminder {
+  id: string;
+  eventId: string;
+  channel: ReminderChannel;
+  minutesBefore: number;
+}
+
+interface EventReminderResponse {
+  id?: string | number;
+  event_id?: string;
+  channel?: string;
+  minutes_before?: number;
+}
+
+const fromResponse = (response: EventReminderResponse): EventReminder | null => {
+  if (
+    !response ||
+    response.id === undefined ||
+    typeof response.event_id !== 'string' ||
+    (response.channel !== 'push' && response.channel !== 'email') ||
+    typeof response.minutes_before !== 'number'
+  ) {
+    return null;
+  }
+  return {
+    id: String(response.id),
+    eventId: response.event_id,
+    channel: response.channel,
+    minutesBefore: response.minutes_before
+  };
+};
+
+// Valid reminders of a list response, longest offset first
+const fromListResponse = (response: EventReminderResponse[]): EventReminder[] =>
+  (Array.isArray(response) ? response : [])
+    .map(fromResponse)
+    .filter((reminder): reminder is EventReminder => reminder !== null)
+    .sort((a, b) => b.minutesBefore - a.minutesBefore);
+
+const eventRemindersService = {
+  // Reminders the user set for one event
+  async getReminders(eventId: string): Promise<EventReminder[]> {
+    try {
+      const response = await api.get<EventReminderResponse[]>(
+        `/api/users/me/event-reminders?eventId=${encodeURIComponent(eventId)}`
+      );
+      return fromListResponse(response);
+    } catch (error) {
+      console.error('[EventReminders] Error loading reminders:', error);
+      throw error;
+    }
+  },
+
+  // Reminders the user set for any event
+  async getAllReminders(): Promise<EventReminder[]> {
+    try {
+      const response = await api.get<EventReminderResponse[]>('/api/users/me/event-reminders');
+      return fromListResponse(response);
+    } catch (error) {
+      console.error('[EventReminders] Error loading reminders:', error);
+      throw error;
+    }
+  },
+
+  // The event's title and times are sent along so the server can send the reminder on its own
+  async addReminder(event: CalendarEvent, channel: ReminderChannel, minutesBefore: number): Promise<EventReminder> {
+    try {
+      const response = await api.post<EventReminderResponse>('/api/users/me/event-reminders', {
+        eventId: event.id,
+        title: event.title,
+        start: event.start,
+        end: event.end,
+        allDay: !!event.allDay,
+        channel,
+        minutesBefore
+      });
+      const reminder = fromResponse(response);
+      if (!reminder) {
+        throw new Error('Invalid event reminder response');
+      }
+      return reminder;
+    } catch (error) {
+      console.error('[EventReminders] Error adding reminder:', error);
+      throw error;
+    }
+  },
+
+  async removeReminder(reminderId: string): Promise<void> {
+    try {
+      await api.delete(`/api/users/me/event-reminders/${encodeURIComponent(reminderId)}`);
+    } catch (error) {
+      console.error('[EventReminders] Error removing reminder:', error);
+      throw error;
+    }
+  }
+};
+
+export default eventRemindersService;
@@ -0,0 +1,175 @@
+import api from './api';
+import { CalendarEvent } from '../types/calendar';
+
+/**
+ * Starred events. Stars are kept in localStorage so they work offline and
+ * show up instantly, and are synced to the server, which sends reminders for
+ * starred events whatever the user's per-type notification settings.
+ *
+ * Changes that could not be sent yet are queued and retried on the next sync.
+ */
+
+const STORAGE_KEY = 'monad-pulse-favorites';
+const PENDING_KEY = 'monad-pulse-favorites-pending';
+export const FAVORITES_CHANGE_EVENT = 'monad-pulse:favorites-change';
+
+export interface FavoriteEvent {
+  eventId: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  starredAt: string;
+}
+
+// Unsent changes by event ID: the favorite to add, or null to remove it
+type PendingChanges = Record<string, FavoriteEvent | null>;
+
+interface FavoriteResponse {
+  event_id?: string;
+  title?: string;
+  start_time?: string;
+  end_time?: string;
+  all_day?: boolean;
+  created_at?: string;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const readFavorites = (): FavoriteEvent[] => {
+  const stored = readJson<FavoriteEvent[]>(STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored.filter(favorite => typeof favorite?.eventId === 'string') : [];
+};
+
+const readPending = (): PendingChanges => readJson<PendingChanges>(PENDING_KEY, {});
+
+const writeFavorites = (favorites: FavoriteEvent[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  window.dispatchEvent(new CustomEvent(FAVORITES_CHANGE_EVENT));
+};
+
+const writePending = (pending: PendingChanges) => {
+  localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+};
+
+const toFavorite = (event: CalendarEvent): FavoriteEvent => ({
+  eventId: event.id,
+  title: event.title,
+  start: event.start,
+  end: event.end,
+  allDay: !!event.allDay,
+  starredAt: new Date().toISOString()
+});
+
+const fromResponse = (response: FavoriteResponse): FavoriteEvent | null => {
+  if (!response || typeof response.event_id !== 'string') return null;
+  return {
+    eventId: response.event_id,
+    title: response.title || '',
+    start: response.start_time || '',
+    end: response.end_time || '',
+    allDay: !!response.all_day,
+    starredAt: response.created_at || new Date().toISOString()
+  };
+};
+
+// Send one change to the server
+const pushChange = async (eventId: string, favorite: FavoriteEvent | null): Promise<void> => {
+  if (favorite) {
+    await api.post('/api/users/me/favorites', {
+      eventId: favorite.eventId,
+      title: favorite.title,
+      start: favorite.start,
+      end: favorite.end,
+      allDay: favorite.allDay
+    });
+  } else {
+    await api.delete(`/api/users/me/favorites/${encodeURIComponent(eventId)}`);
+  }
+};
+
+// Drop a queued change once it was sent, unless the event was toggled again in the meantime
+const clearPending = (eventId: string, sent: FavoriteEvent | null) => {
+  const pending = readPending();
+  if (eventId in pending && JSON.stringify(pending[eventId]) === JSON.stringify(sent)) {
+    delete pending[eventId];
+    writePending(pending);
+  }
+};
+
+let syncPromise: Promise<void> | null = null;
+
+const favoritesService = {
+  getFavorites(): FavoriteEvent[] {
+    return readFavorites();
+  },
+
+  isFavorite(eventId: string): boolean {
+    return readFavorites().some(favorite => favorite.eventId === eventId);
+  },
+
+  // Star or unstar an event; the local change applies right away
+  async toggleFavorite(event: CalendarEvent): Promise<boolean> {
+    const favorites = readFavorites();
+    const starred = !favorites.some(favorite => favorite.eventId === event.id);
+    const change = starred ? toFavorite(event) : null;
+
+    writeFavorites(starred
+      ? [...favorites, change as FavoriteEvent]
+      : favorites.filter(favorite => favorite.eventId !== event.id));
+    writePending({ ...readPending(), [event.id]: change });
+
+    try {
+      await pushChange(event.id, change);
+      clearPending(event.id, change);
+    } catch (error) {
+      console.warn('[Favorites] Change will be retried on the next sync:', error);
+    }
+    return starred;
+  },
+
+  // Send queued changes, then replace the local list with the server's
+  sync(): Promise<void> {
+    if (!syncPromise) {
+      syncPromise = (async () => {
+        for (const [eventId, change] of Object.entries(readPending())) {
+          try {
+            await pushChange(eventId, change);
+            clearPending(eventId, change);
+          } catch (error) {
+            console.warn(`[Favorites] Could not sync change for ${eventId}:`, error);
+          }
+        }
+
+        try {
+          const response = await api.get<FavoriteResponse[]>('/api/users/me/favorites');
+          const serverFavorites = (Array.isArray(response) ? response : [])
+            .map(fromResponse)
+            .filter((favorite): favorite is FavoriteEvent => favorite !== null);
+
+          // Changes that are still queued win over the server's list
+          const pending = readPending();
+          const merged = serverFavorites.filter(favorite => !(favorite.eventId in pending));
+          Object.values(pending).forEach(change => {
+            if (change) merged.push(change);
+          });
+          writeFavorites(merged);
+        } catch (error) {
+          console.warn('[Favorites] Could not load favorites, using the local list:', error);
+        }
+      })().finally(() => {
+        syncPromise = null;
+      });
+    }
+    return syncPromise;
+  }
+};
+
+export default favoritesService;
@@ -0,0 +1,134 @@
+import { CalendarDateRange, CalendarEvent } from '../types/calendar';
+import eventCache, { SyncState } from './eventCache';
+import { GoogleCalendarConfig, fetchGoogleCalendarPages, mapGoogleItem } from '../utils/googleCalendarApi';
+
+/**
+ * Incremental Google Calendar sync.
+ *
+ * The first request for a window is a full sync that pages through every
+ * result and stores Google's nextSyncToken. Later refreshes of the same window
+ * send the token and only receive events that changed or were cancelled since.
+ * When Google answers 410 Gone the token has expired and we fall back to a
+ * full resync.
+ *
+ * The changes are applied to the window's events in the event cache, which
+ * the caller stores the result in, so a token is only used while those are
+ * readable.
+ */
+
+export interface GoogleSyncResult {
+  events: CalendarEvent[];
+  // 'full' when every event was downloaded, 'incremental' when only changes were
+  mode: 'full' | 'incremental';
+  changedCount: number;
+}
+
+const getSyncKey = (config: GoogleCalendarConfig, range: CalendarDateRange): string =>
+  `google:${config.calendarId}|${range.timeMin.toISOString()}|${range.timeMax.toISOString()}`;
+
+const overlapsRange = (event: CalendarEvent, range: CalendarDateRange): boolean => {
+  const start = new Date(event.start).getTime();
+  const end = new Date(event.end || event.start).getTime();
+  return start <= range.timeMax.getTime() && end >= range.timeMin.getTime();
+};
+
+const sortByStart = (events: CalendarEvent[]): CalendarEvent[] =>
+  events.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+const isSyncTokenExpired = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { status?: number }).status === 410;
+
+const fullSync = async (
+  key: string,
+  range: CalendarDateRange,
+  config: GoogleCalendarConfig
+): Promise<GoogleSyncResult> => {
+  // orderBy cannot be combined with sync tokens, so results are sorted locally
+  const { items, nextSyncToken, timeZone } = await fetchGoogleCalendarPages({
+    timeMin: range.timeMin.toISOString(),
+    timeMax: range.timeMax.toISOString()
+  }, config);
+
+  const events = sortByStart(
+    items.filter(item => item.status !== 'cancelled').map(item => mapGoogleItem(item, timeZone))
+  );
+
+  if (nextSyncToken) {
+    await eventCache.writeSyncState({
+      key,
+      syncToken: nextSyncToken,
+      timeMin: range.timeMin.getTime(),
+      timeMax: range.timeMax.getTime(),
+      syncedAt: Date.now()
+    });
+  }
+
+  return { events, mode: 'full', changedCount: events.length };
+};
+
+const incrementalSync = async (
+  state: SyncState,
+  cached: CalendarEvent[],
+  range: CalendarDateRange,
+  config: GoogleCalendarConfig
+): Promise<GoogleSyncResult> => {
+  // timeMin/timeMax are not allowed together with a sync token; changes anywhere
+  // in the calendar come back and are clipped to the window here
+  const { items, nextSyncToken, timeZone } = await fetchGoogleCalendarPages({ syncToken: state.syncToken }, config);
+
+  const eventsById = new Map(cached.map(event => [event.id, event]));
+  items.forEach(item => {
+    if (item.status === 'cancelled') {
+      eventsById.delete(item.id);
+      return;
+    }
+
+    const event = mapGoogleItem(item, timeZone);
+    if (overlapsRange(event, range)) {
+      eventsById.set(event.id, event);
+    } else {
+      // The event was moved out of this window
+      eventsById.delete(event.id);
+    }
+  });
+
+  const events = sortByStart(Array.from(eventsById.values()));
+
+  await eventCache.writeSyncState({
+    key: state.key,
+    syncToken: nextSyncToken || state.syncToken,
+    timeMin: state.timeMin,
+    timeMax: state.timeMax,
+    syncedAt: Date.now()
+  });
+
+  return { events, mode: 'incremental', changedCount: items.length };
+};
+
+/**
+ * Bring a window of a Google calendar up to date, downloading as little as
+ * possible. `sourceId` is the source the window's events are cached under.
+ */
+export const syncGoogleCalendarRange = async (
+  range: CalendarDateRange,
+  config: GoogleCalendarConfig,
+  sourceId: string
+): Promise<GoogleSyncResult> => {
+  const key = getSyncKey(config, range);
+  const state = await eventCache.readSyncState(key);
+  const cached = state ? await eventCache.readSourceEvents(sourceId, range) : null;
+
+  if (state && cached) {
+    try {
+      return await incrementalSync(state, cached, range, config);
+    } catch (error) {
+      if (!isSyncTokenExpired(error)) {
+        throw error;
+      }
+      console.warn('[GoogleCalendarSync] Sync token expired, running a full resync');
+      await eventCache.deleteSyncState(key);
+    }
+  }
+
+  return fullSync(key, range, config);
+};
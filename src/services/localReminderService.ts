@@ -0,0 +1,95 @@
+import { formatInTimeZone } from '../utils/timezone';
+import { LocalReminder, formatTimeUntilStart } from '../utils/localReminders';
+import { parseEventDate } from '../utils/eventLayout';
+import { getEventPath } from '../utils/routes';
+
+// Buttons of reminder notifications, handled by the service worker (public/service-worker.js).
+// Only notifications shown through the service worker can have them.
+const REMINDER_ACTIONS = [
+  { action: 'snooze', title: 'Snooze 10 min' },
+  { action: 'open', title: 'Open event' },
+  { action: 'add-to-calendar', title: 'Add to calendar' }
+];
+
+/**
+ * Shows reminders computed in the page, and remembers which reminders were
+ * already shown, here or by server push, so that each one appears only once
+ * across reloads and tabs.
+ */
+
+const DELIVERED_KEY = 'monad-pulse-delivered-reminders';
+// Delivered reminders are forgotten after a day, long after they could fire again
+const DELIVERED_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Reminder keys and when they were shown
+type DeliveredLog = Record<string, number>;
+
+const readDelivered = (): DeliveredLog => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DELIVERED_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+// Notification tag of a reminder; server push uses the same one, so the two replace each other
+const getNotificationTag = (key: string): string => `reminder:${key}`;
+
+const localReminderService = {
+  wasDelivered(key: string): boolean {
+    return key in readDelivered();
+  },
+
+  markDelivered(key: string): void {
+    const now = Date.now();
+    const log = readDelivered();
+    Object.keys(log).forEach(item => {
+      if (now - log[item] > DELIVERED_TTL_MS) delete log[item];
+    });
+    log[key] = now;
+    localStorage.setItem(DELIVERED_KEY, JSON.stringify(log));
+  },
+
+  // Show a reminder as a system notification; false when notifications aren't allowed
+  async showNotification(reminder: LocalReminder, timeZone: string, onClick: () => void): Promise<boolean> {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+      return false;
+    }
+
+    const { event } = reminder;
+    const title = event.title;
+    const options: NotificationOptions = {
+      body: `${formatTimeUntilStart(event)}, ${formatInTimeZone(parseEventDate(event.start), timeZone, {
+        weekday: 'short',
+        hour: 'numeric',
+        minute: '2-digit'
+      })}`,
+      icon: '/icons/icon-192x192.png',
+      tag: getNotificationTag(reminder.key),
+      // Same payload as server pushes, so that the service worker can snooze it or add it to a calendar
+      data: { eventId: event.id, start: event.start, minutesBefore: reminder.minutesBefore, url: getEventPath(event.id) }
+    };
+
+    try {
+      // Through the service worker where there is one, so that clicks work like on push notifications
+      const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+      if (registration) {
+        await registration.showNotification(title, { ...options, actions: REMINDER_ACTIONS } as NotificationOptions);
+      } else {
+        const notification = new Notification(title, options);
+        notification.onclick = () => {
+          window.focus();
+          onClick();
+          notification.close();
+        };
+      }
+      return true;
+    } catch (error) {
+      console.error('[LocalReminders] Could not show notification:', error);
+      return false;
+    }
+  }
+};
+
+export default localReminderService;
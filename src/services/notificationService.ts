@@ -1,5 +1,19 @@
 import api from './api';
 import { CalendarEvent } from '../types/calendar';
+import { getDisplayTimeZone, isValidTimeZone } from '../utils/timezone';
+import { createEventTypeResolver, matchStoredEventType } from '../utils/eventTypes';
+import {
+  ChannelReminderOverride,
+  DEFAULT_REMINDER_OFFSETS,
+  normalizeReminderOffsets,
+  offsetsFromLegacyFlags,
+  resolveTypeReminderOffsets
+} from '../utils/reminders';
+import { DEFAULT_QUIET_HOURS, QuietHours, normalizeQuietHours } from '../utils/quietHours';
+import { DEFAULT_DIGEST_SETTINGS, DigestSettings, normalizeDigestSettings } from '../utils/digest';
+
+// Dispatched on window after the settings were saved
+export const PREFERENCES_CHANGE_EVENT = 'monad-pulse:preferences-change';
 
 // Check if the browser supports service workers and push notifications
 const isSupported = (): boolean => {
@@ -16,11 +30,11 @@ const DEFAULT_PREFERENCES = {
   notifyEmail: true,
   notifyBrowser: true,
   notifyAllEvents: true,
-  email1hBefore: true,
-  email10mBefore: true,
-  browser1hBefore: true,
-  browser10mBefore: true,
-  notifyNewEvents: true
+  emailReminderOffsets: DEFAULT_REMINDER_OFFSETS,
+  browserReminderOffsets: DEFAULT_REMINDER_OFFSETS,
+  notifyNewEvents: true,
+  quietHours: DEFAULT_QUIET_HOURS,
+  digest: DEFAULT_DIGEST_SETTINGS
 };
 
 export interface UserPreferences {
@@ -28,21 +42,47 @@ export interface UserPreferences {
   notifyEmail: boolean;
   notifyBrowser: boolean;
   notifyAllEvents: boolean;
-  // Email notification settings
-  email1hBefore: boolean;
-  email10mBefore: boolean;
-  // Browser notification settings
-  browser1hBefore: boolean;
-  browser10mBefore: boolean;
+  // Minutes before events to send email reminders, longest first
+  emailReminderOffsets: number[];
+  // Minutes before events to send browser notifications, longest first
+  browserReminderOffsets: number[];
   // New event notification setting
   notifyNewEvents: boolean;
+  // IANA timezone event times are shown in, in the app and in notifications
+  timezone: string;
+  // Window in which reminders are held back, in the timezone above
+  quietHours: QuietHours;
+  // Daily or weekly email listing upcoming events of the enabled types
+  digest: DigestSettings;
 }
 
 export interface EventPreference {
   event_type: string;
   is_enabled: boolean;
+  // Reminder offsets for events of this type, the global ones unless overridden
+  email_reminder_offsets: number[];
+  browser_reminder_offsets: number[];
+  // Offsets the type sets itself, or null if it follows the global ones
+  reminder_override: ChannelReminderOverride | null;
+}
+
+// Event type preference as stored by the server
+interface EventPreferenceResponse {
+  event_type: string;
+  is_enabled: boolean;
+  email_reminder_offsets?: unknown;
+  browser_reminder_offsets?: unknown;
 }
 
+// Reminder offsets of one channel in a preferences response. Accounts saved
+// before offsets existed only have the "1 hour" and "10 minutes" toggles.
+const readReminderOffsets = (response: Record<string, unknown>, channel: 'email' | 'browser'): number[] =>
+  normalizeReminderOffsets(response[`${channel}ReminderOffsets`] ?? response[`${channel}_reminder_offsets`]) ??
+  offsetsFromLegacyFlags(
+    response[`${channel}1hBefore`] ?? response[`${channel}_1h_before`] ?? response.notify1hBefore,
+    response[`${channel}10mBefore`] ?? response[`${channel}_10m_before`] ?? response.notify10mBefore
+  );
+
 const notificationService = {
   // Get user notification preferences
   async getPreferences(): Promise<UserPreferences> {
@@ -57,16 +97,30 @@ const notificationService = {
           notifyEmail: oldPrefs.notifyEmail !== false,
           notifyBrowser: oldPrefs.notifyBrowser !== false,
           notifyAllEvents: oldPrefs.notifyAllEvents !== false,
-          email1hBefore: oldPrefs.email1hBefore !== false,
-          email10mBefore: oldPrefs.email10mBefore !== false,
-          browser1hBefore: oldPrefs.browser1hBefore !== false,
-          browser10mBefore: oldPrefs.browser10mBefore !== false,
-          notifyNewEvents: oldPrefs.notifyNewEvents !== false
+          emailReminderOffsets: readReminderOffsets(oldPrefs, 'email'),
+          browserReminderOffsets: readReminderOffsets(oldPrefs, 'browser'),
+          notifyNewEvents: oldPrefs.notifyNewEvents !== false,
+          timezone: getDisplayTimeZone(),
+          quietHours: DEFAULT_QUIET_HOURS,
+          digest: DEFAULT_DIGEST_SETTINGS
         };
       }
       
       // Merge with default preferences to ensure all fields are present
-      return { ...DEFAULT_PREFERENCES, ...(response || {}) };
+      const prefs: UserPreferences = {
+        ...DEFAULT_PREFERENCES,
+        timezone: getDisplayTimeZone(),
+        ...(response || {}),
+        emailReminderOffsets: readReminderOffsets(response || {}, 'email'),
+        browserReminderOffsets: readReminderOffsets(response || {}, 'browser'),
+        quietHours: normalizeQuietHours(response?.quietHours ?? response?.quiet_hours),
+        digest: normalizeDigestSettings(response?.digest)
+      };
+      // Accounts saved before timezones were stored fall back to this device's choice
+      if (!prefs.timezone || !isValidTimeZone(prefs.timezone)) {
+        prefs.timezone = getDisplayTimeZone();
+      }
+      return prefs;
     } catch (error) {
       console.error('Error getting preferences:', error);
       // Return default preferences if there's an error
@@ -75,11 +129,12 @@ const notificationService = {
         notifyEmail: true,
         notifyBrowser: true,
         notifyAllEvents: true,
-        email1hBefore: true,
-        email10mBefore: true,
-        browser1hBefore: true,
-        browser10mBefore: true,
-        notifyNewEvents: true
+        emailReminderOffsets: DEFAULT_REMINDER_OFFSETS,
+        browserReminderOffsets: DEFAULT_REMINDER_OFFSETS,
+        notifyNewEvents: true,
+        timezone: getDisplayTimeZone(),
+        quietHours: DEFAULT_QUIET_HOURS,
+        digest: DEFAULT_DIGEST_SETTINGS
       };
     }
   },
@@ -99,11 +154,13 @@ const notificationService = {
         notify_email: mergedPrefs.notifyEmail,
         notify_browser: mergedPrefs.notifyBrowser,
         notify_all_events: mergedPrefs.notifyAllEvents,
-        email_1h_before: mergedPrefs.email1hBefore,
-        email_10m_before: mergedPrefs.email10mBefore,
-        browser_1h_before: mergedPrefs.browser1hBefore,
-        browser_10m_before: mergedPrefs.browser10mBefore,
-        notify_new_events: mergedPrefs.notifyNewEvents
+        email_reminder_offsets: mergedPrefs.emailReminderOffsets,
+        browser_reminder_offsets: mergedPrefs.browserReminderOffsets,
+        notify_new_events: mergedPrefs.notifyNewEvents,
+        timezone: mergedPrefs.timezone,
+        quiet_hours: mergedPrefs.quietHours,
+        // No timezone means the digest follows the timezone above
+        digest: mergedPrefs.digest && { ...mergedPrefs.digest, timezone: mergedPrefs.digest.timezone || null }
       };
       
       // Remove undefined values to avoid overriding existing values
@@ -127,11 +184,12 @@ const notificationService = {
         notifyEmail: result.notify_email !== false,
         notifyBrowser: result.notify_browser !== false,
         notifyAllEvents: result.notify_all_events !== false,
-        email1hBefore: result.email_1h_before !== false,
-        email10mBefore: result.email_10m_before !== false,
-        browser1hBefore: result.browser_1h_before !== false,
-        browser10mBefore: result.browser_10m_before !== false,
-        notifyNewEvents: result.notify_new_events !== false
+        emailReminderOffsets: normalizeReminderOffsets(result.email_reminder_offsets) ?? mergedPrefs.emailReminderOffsets,
+        browserReminderOffsets: normalizeReminderOffsets(result.browser_reminder_offsets) ?? mergedPrefs.browserReminderOffsets,
+        notifyNewEvents: result.notify_new_events !== false,
+        timezone: result.timezone && isValidTimeZone(result.timezone) ? result.timezone : mergedPrefs.timezone,
+        quietHours: result.quiet_hours ? normalizeQuietHours(result.quiet_hours) : mergedPrefs.quietHours,
+        digest: result.digest ? normalizeDigestSettings(result.digest) : mergedPrefs.digest
       };
     } catch (error) {
       console.error('Error updating preferences:', error);
@@ -156,24 +214,47 @@ const notificationService = {
       
       // Create a map of existing preferences for quick lookup
       const prefMap = new Map<string, boolean>();
-      existingPrefs.forEach((pref: any) => {
-        if (pref && typeof pref.event_type === 'string' && typeof pref.is_enabled === 'boolean') {
-          prefMap.set(pref.event_type, pref.is_enabled);
+      const overrideMap = new Map<string, { email?: unknown; browser?: unknown }>();
+      const validPrefs = existingPrefs.filter((pref): pref is EventPreferenceResponse =>
+        pref && typeof pref.event_type === 'string' && typeof pref.is_enabled === 'boolean');
+      // Preferences saved before events were grouped into series are keyed by raw event titles
+      const savedTypes = new Set(validPrefs.map(pref => pref.event_type).filter(type => availableEventTypes.includes(type)));
+      validPrefs.forEach(pref => {
+        const eventType = matchStoredEventType(pref.event_type, availableEventTypes);
+        if (!eventType) return;
+        const isLegacy = eventType !== pref.event_type;
+        // A preference saved for the series wins over those of its titles
+        if (isLegacy && savedTypes.has(eventType)) return;
+        // A series keeps its reminders if any of its titles had them
+        prefMap.set(eventType, pref.is_enabled || (isLegacy && prefMap.get(eventType) === true));
+        if (!isLegacy || !overrideMap.has(eventType)) {
+          overrideMap.set(eventType, {
+            email: pref.email_reminder_offsets,
+            browser: pref.browser_reminder_offsets
+          });
         }
       });
+      const globalOffsets = { email: prefs.emailReminderOffsets, browser: prefs.browserReminderOffsets };
       
       // Check if this is a new user (no preferences set yet)
       const isNewUser = existingPrefs.length === 0;
       
       // Merge available event types with existing preferences
-      const allPrefs: EventPreference[] = availableEventTypes.map(eventType => ({
-        event_type: eventType,
-        is_enabled: isNewUser 
-          ? prefs.notifyAllEvents  // For new users, use the global notifyAllEvents setting
-          : prefMap.has(eventType) 
-            ? prefMap.get(eventType) as boolean
-            : prefs.notifyAllEvents // For existing users, use notifyAllEvents setting for new types
-      }));
+      const allPrefs: EventPreference[] = availableEventTypes.map(eventType => {
+        // Types without their own reminder offsets use the global ones
+        const reminders = resolveTypeReminderOffsets(overrideMap.get(eventType) || {}, globalOffsets);
+        return {
+          event_type: eventType,
+          is_enabled: isNewUser 
+            ? prefs.notifyAllEvents  // For new users, use the global notifyAllEvents setting
+            : prefMap.has(eventType) 
+              ? prefMap.get(eventType) as boolean
+              : prefs.notifyAllEvents, // For existing users, use notifyAllEvents setting for new types
+          email_reminder_offsets: reminders.email,
+          browser_reminder_offsets: reminders.browser,
+          reminder_override: reminders.override
+        };
+      });
       
       return allPrefs;
     } catch (error) {
@@ -181,7 +262,10 @@ const notificationService = {
       // Return default prefs for available event types
       return availableEventTypes.map(eventType => ({
         event_type: eventType,
-        is_enabled: false
+        is_enabled: false,
+        email_reminder_offsets: DEFAULT_REMINDER_OFFSETS,
+        browser_reminder_offsets: DEFAULT_REMINDER_OFFSETS,
+        reminder_override: null
       }));
     }
   },
@@ -219,8 +303,9 @@ const notificationService = {
   
   // Request permission for notifications
   async requestNotificationPermission(): Promise<NotificationPermission> {
-    if (!isSupported()) {
-      console.warn('Push notifications are not supported in this browser');
+    // Reminders shown by the page need the permission too, so ask even without push support
+    if (typeof window === 'undefined' || !('Notification' in window)) {
+      console.warn('Notifications are not supported in this browser');
       return 'denied';
     }
 
@@ -377,6 +462,7 @@ const notificationService = {
         subscription = await registration.pushManager.getSubscription();
         if (subscription) {
           console.log('[NotificationService] Found existing push subscription:', subscription);
+          await this.syncPushConfig(userEmail);
           return subscription;
         }
       } catch (error) {
@@ -478,10 +564,13 @@ const notificationService = {
         await api.post('/api/users/me/push-subscriptions', {
           endpoint: subscriptionData.endpoint,
           keys: subscriptionData.keys,
-          email: userEmail
+          email: userEmail,
+          // Lets the devices list in the settings tell browsers apart
+          userAgent: navigator.userAgent
         });
         
         console.log('[NotificationService] Subscription saved to server successfully');
+        this.storePushConfig(registration, vapidPublicKey, userEmail);
         return subscription;
         
       } catch (apiError) {
@@ -503,6 +592,51 @@ const notificationService = {
     }
   },
   
+  // Hand the VAPID key and API location to the service worker, so that it can
+  // re-subscribe by itself when the browser expires the subscription
+  storePushConfig(registration: ServiceWorkerRegistration, vapidPublicKey: string, userEmail: string): void {
+    // Any of them writes to the same store; only the installing one exists on first install
+    const worker = registration.installing || registration.waiting || registration.active;
+    worker?.postMessage({
+      type: 'STORE_PUSH_CONFIG',
+      config: {
+        vapidPublicKey,
+        apiBaseUrl: import.meta.env.VITE_API_URL || '',
+        email: userEmail
+      }
+    });
+  },
+  
+  // Store the push config for a subscription made earlier, e.g. before the
+  // service worker kept it, or after the worker was updated
+  async syncPushConfig(userEmail: string): Promise<void> {
+    if (!userEmail || !('serviceWorker' in navigator) || !('PushManager' in window)) {
+      return;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const subscription = registration ? await registration.pushManager.getSubscription() : null;
+      if (!registration || !subscription) {
+        return;
+      }
+
+      // The subscription knows the key it was made with
+      const serverKey = subscription.options?.applicationServerKey;
+      const vapidPublicKey = serverKey
+        ? btoa(String.fromCharCode(...new Uint8Array(serverKey)))
+          .replace(/\+/g, '-')
+          .replace(/\//g, '_')
+          .replace(/=+$/, '')
+        : await this.getVapidPublicKey();
+      if (vapidPublicKey) {
+        this.storePushConfig(registration, vapidPublicKey, userEmail);
+      }
+    } catch (error) {
+      console.warn('[NotificationService] Could not hand the push config to the service worker:', error);
+    }
+  },
+
   // Convert a base64 string to Uint8Array for use with the Push API
   urlBase64ToUint8Array(base64String: string): Uint8Array {
     console.log('[NotificationService] Converting base64 string to Uint8Array:', base64String);
@@ -593,13 +727,11 @@ const notificationService = {
       return [];
     }
     
-    events.forEach(event => {
-      if (event?.extendedProperties?.eventType) {
-        types.add(event.extendedProperties.eventType);
-      } else if (event?.title) {
-        // Fallback to using the title if no event type is specified
-        types.add(event.title);
-      }
+    // Events without an explicit type are grouped into series by title
+    const validEvents = events.filter(event => event && (event.extendedProperties?.eventType || event.title));
+    const getType = createEventTypeResolver(validEvents);
+    validEvents.forEach(event => {
+      types.add(getType(event));
     });
     
     return Array.from(types).sort((a, b) => a.localeCompare(b));
@@ -629,7 +761,7 @@ const notificationService = {
   
   // Get default notification preferences
   getDefaultPreferences(): UserPreferences {
-    return { ...DEFAULT_PREFERENCES };
+    return { ...DEFAULT_PREFERENCES, timezone: getDisplayTimeZone() };
   },
   
   // Save all preferences in one request
@@ -644,11 +776,12 @@ const notificationService = {
         notifyEmail: mainPreferences.notifyEmail,
         notifyBrowser: mainPreferences.notifyBrowser,
         notifyAllEvents: mainPreferences.notifyAllEvents,
-        email1hBefore: mainPreferences.email1hBefore,
-        email10mBefore: mainPreferences.email10mBefore,
-        browser1hBefore: mainPreferences.browser1hBefore,
-        browser10mBefore: mainPreferences.browser10mBefore,
-        notifyNewEvents: mainPreferences.notifyNewEvents
+        emailReminderOffsets: mainPreferences.emailReminderOffsets,
+        browserReminderOffsets: mainPreferences.browserReminderOffsets,
+        notifyNewEvents: mainPreferences.notifyNewEvents,
+        timezone: mainPreferences.timezone,
+        quietHours: mainPreferences.quietHours,
+        digest: mainPreferences.digest
       });
       
       // Then save event type preferences
@@ -661,6 +794,9 @@ const notificationService = {
               await api.post('/api/users/me/event-preferences', {
                 eventType: pref.eventType,
                 isEnabled: pref.isEnabled,
+                // null clears the type's reminder override, so it follows the global offsets again
+                emailReminderOffsets: pref.reminderOverride ? pref.reminderOverride.email : null,
+                browserReminderOffsets: pref.reminderOverride ? pref.reminderOverride.browser : null,
                 email: mainPreferences.email // Include email in the request
               });
             } catch (error) {
@@ -671,6 +807,7 @@ const notificationService = {
         }
       }
       
+      window.dispatchEvent(new CustomEvent(PREFERENCES_CHANGE_EVENT));
       return { success: true };
     } catch (error) {
       console.error('Error saving all preferences:', error);
@@ -696,6 +833,7 @@ const notificationService = {
       const isSubscribed = await this.isSubscribed();
       if (isSubscribed) {
         console.log('Already subscribed to push notifications');
+        await this.syncPushConfig(userEmail);
         return true;
       }
 
@@ -0,0 +1,139 @@
+import api from './api';
+
+/**
+ * Push subscriptions registered for the user, one per browser they enabled
+ * notifications in. Revoking one stops pushes to that browser; revoking the
+ * current browser's subscription also unsubscribes it locally.
+ */
+export interface PushDevice {
+  id: string;
+  endpoint: string;
+  // Name given by the user, if any
+  name: string | null;
+  // User agent of the browser that subscribed, if the server recorded it
+  userAgent: string | null;
+  createdAt: string | null;
+  // Last push the push service accepted for this subscription
+  lastSuccessAt: string | null;
+}
+
+// Outcome of the service worker's last automatic re-subscription, after the
+// browser expired or replaced this browser's subscription
+export interface SubscriptionRefresh {
+  at: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Message the service worker sends to open pages after re-subscribing
+export const SUBSCRIPTION_REFRESHED_MESSAGE = 'PUSH_SUBSCRIPTION_REFRESHED';
+
+// How long to wait for the service worker to answer
+const WORKER_TIMEOUT_MS = 3000;
+
+interface PushSubscriptionResponse {
+  id?: string | number;
+  endpoint?: string;
+  name?: string | null;
+  user_agent?: string | null;
+  created_at?: string | null;
+  last_success_at?: string | null;
+}
+
+const toPushDevice = (response: PushSubscriptionResponse): PushDevice | null => {
+  if (!response || response.id === undefined || typeof response.endpoint !== 'string') return null;
+  return {
+    id: String(response.id),
+    endpoint: response.endpoint,
+    name: response.name || null,
+    userAgent: response.user_agent || null,
+    createdAt: response.created_at || null,
+    lastSuccessAt: response.last_success_at || null
+  };
+};
+
+// Push subscription of this browser, if it has one
+const getCurrentSubscription = async (): Promise<PushSubscription | null> => {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+const pushSubscriptionsService = {
+  async getDevices(): Promise<PushDevice[]> {
+    try {
+      const response = await api.get<PushSubscriptionResponse[]>('/api/users/me/push-subscriptions');
+      return (Array.isArray(response) ? response : [])
+        .map(toPushDevice)
+        .filter((device): device is PushDevice => device !== null);
+    } catch (error) {
+      console.error('[PushSubscriptions] Error loading devices:', error);
+      throw error;
+    }
+  },
+
+  // Endpoint of this browser's subscription, to mark it in the list
+  async getCurrentEndpoint(): Promise<string | null> {
+    try {
+      const subscription = await getCurrentSubscription();
+      return subscription ? subscription.endpoint : null;
+    } catch (error) {
+      console.warn('[PushSubscriptions] Could not read this browser\'s subscription:', error);
+      return null;
+    }
+  },
+
+  // Last automatic re-subscription in this browser, if there was one
+  async getLastRefresh(): Promise<SubscriptionRefresh | null> {
+    let worker: ServiceWorker | null | undefined;
+    try {
+      worker = 'serviceWorker' in navigator ? (await navigator.serviceWorker.getRegistration())?.active : null;
+    } catch (error) {
+      console.warn('[PushSubscriptions] Could not reach the service worker:', error);
+    }
+    if (!worker) return null;
+    const activeWorker = worker;
+
+    return new Promise(resolve => {
+      const channel = new MessageChannel();
+      const timer = window.setTimeout(() => resolve(null), WORKER_TIMEOUT_MS);
+      channel.port1.onmessage = (message) => {
+        window.clearTimeout(timer);
+        resolve(message.data?.refresh || null);
+      };
+      activeWorker.postMessage({ type: 'GET_SUBSCRIPTION_REFRESH' }, [channel.port2]);
+    });
+  },
+
+  async renameDevice(id: string, name: string): Promise<PushDevice> {
+    try {
+      const response = await api.put<PushSubscriptionResponse>(
+        `/api/users/me/push-subscriptions/${encodeURIComponent(id)}`,
+        { name: name.trim() || null }
+      );
+      const device = toPushDevice(response);
+      if (!device) throw new Error('Invalid push subscription response');
+      return device;
+    } catch (error) {
+      console.error('[PushSubscriptions] Error renaming device:', error);
+      throw error;
+    }
+  },
+
+  async revokeDevice(device: PushDevice): Promise<void> {
+    try {
+      await api.delete(`/api/users/me/push-subscriptions/${encodeURIComponent(device.id)}`);
+
+      // Don't leave this browser subscribed to an endpoint the server forgot
+      const subscription = await getCurrentSubscription();
+      if (subscription && subscription.endpoint === device.endpoint) {
+        await subscription.unsubscribe();
+      }
+    } catch (error) {
+      console.error('[PushSubscriptions] Error revoking device:', error);
+      throw error;
+    }
+  }
+};
+
+export default pushSubscriptionsService;
@@ -5,11 +5,56 @@ export interface CalendarEvent {
   start: string;
   end: string;
   allDay?: boolean;
+  // IANA timezone the organizer scheduled the event in (timed events only)
+  timeZone?: string;
   location?: string;
   htmlLink?: string;
+  // ID of the CalendarSource the event was loaded from
+  sourceId?: string;
+  // ID shared by all occurrences of a recurring event
+  recurringEventId?: string;
   extendedProperties?: {
     shared?: Record<string, any>;
     private?: Record<string, any>;
     eventType?: string;
   };
-}
\ No newline at end of file
+}
+
+// Inclusive time window requested from a calendar source
+export interface CalendarDateRange {
+  timeMin: Date;
+  timeMax: Date;
+}
+
+export interface CalendarSourceMeta {
+  sourceId: string;
+  sourceName: string;
+  fetchedAt: number;
+  eventCount: number;
+}
+
+export interface CalendarSourceResult {
+  events: CalendarEvent[];
+  meta: CalendarSourceMeta;
+}
+
+// A provider of calendar events (Google calendar, static JSON file, backend API, ...)
+export interface CalendarSource {
+  id: string;
+  name: string;
+  fetchRange(range: CalendarDateRange): Promise<CalendarSourceResult>;
+}
+
+// Why a calendar fetch failed, so the UI can tell an outage apart from an empty month
+export type CalendarErrorKind = 'network' | 'auth' | 'quota' | 'parse' | 'unknown';
+
+export interface CalendarFetchError {
+  kind: CalendarErrorKind;
+  message: string;
+  status?: number;
+  sourceId?: string;
+}
+
+export type CalendarFetchResult<T = CalendarEvent[]> =
+  | { ok: true; data: T }
+  | { ok: false; error: CalendarFetchError };
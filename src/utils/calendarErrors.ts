@@ -0,0 +1,60 @@
+import { CalendarErrorKind, CalendarFetchError } from '../types/calendar';
+
+// Google API error reasons that mean we ran out of quota rather than lacking access
+const QUOTA_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'dailyLimitExceeded', 'quotaExceeded'];
+
+const KIND_MESSAGES: Record<CalendarErrorKind, string> = {
+  network: "Can't reach the calendar service right now. Check your connection or try again shortly.",
+  auth: "The calendar couldn't be accessed. The API key may be invalid or the calendar is not public.",
+  quota: 'The calendar service is rate limiting requests. Please try again in a few minutes.',
+  parse: 'The calendar returned data that could not be read.',
+  unknown: 'Something went wrong while loading events.'
+};
+
+// Human readable description of an error kind
+export const getCalendarErrorMessage = (kind: CalendarErrorKind): string => KIND_MESSAGES[kind];
+
+const getKind = (error: unknown): CalendarErrorKind => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return 'network';
+  }
+
+  if (error instanceof SyntaxError) {
+    return 'parse';
+  }
+
+  const { status, reason } = (typeof error === 'object' && error !== null ? error : {}) as {
+    status?: number;
+    reason?: string;
+  };
+
+  if (status === 429 || (reason && QUOTA_REASONS.includes(reason))) {
+    return 'quota';
+  }
+  if (status === 400 && reason === 'keyInvalid') {
+    return 'auth';
+  }
+  if (status === 401 || status === 403 || status === 404) {
+    return 'auth';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'network';
+  }
+  // fetch() rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError) {
+    return 'network';
+  }
+
+  return 'unknown';
+};
+
+// Turn anything thrown by a calendar source into a typed error
+export const toCalendarFetchError = (error: unknown, sourceId?: string): CalendarFetchError => {
+  const status = typeof error === 'object' && error !== null ? (error as { status?: number }).status : undefined;
+  return {
+    kind: getKind(error),
+    message: error instanceof Error ? error.message : String(error),
+    status,
+    sourceId
+  };
+};
@@ -0,0 +1,158 @@
+import { CalendarEvent } from '../types/calendar';
+import { isAllDayEvent } from './eventLayout';
+import { stripHtml } from './eventSearch';
+import { DEFAULT_REMINDER_OFFSETS } from './reminders';
+
+const PRODUCT_ID = '-//Monad Pulse//Event Calendar//EN';
+const UID_DOMAIN = 'monadpulse';
+// Content lines longer than this many octets are folded (RFC 5545)
+const MAX_LINE_OCTETS = 75;
+
+const toDateOnly = (value: string): string => value.slice(0, 10).replace(/-/g, '');
+
+// 20250314T170000Z
+const toUtcDateTime = (value: string | Date): string =>
+  new Date(value).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Length of a character in UTF-8
+const getUtf8Length = (character: string): number => {
+  const codePoint = character.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Split long lines into CRLF + space continuations of at most MAX_LINE_OCTETS
+// (counting the leading space), without breaking characters apart
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const character of line) {
+    const length = getUtf8Length(character);
+    if (octets + length > MAX_LINE_OCTETS) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 1;
+    }
+    chunk += character;
+    octets += length;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+const getDescription = (event: CalendarEvent): string => {
+  const description = stripHtml(event.description || '');
+  return event.htmlLink ? [description, event.htmlLink].filter(Boolean).join('\n\n') : description;
+};
+
+/**
+ * Build an iCalendar file with a single VEVENT for `event`, including
+ * display alarms `reminderMinutes` before it starts.
+ */
+export const buildEventIcs = (
+  event: CalendarEvent,
+  reminderMinutes: number[] = DEFAULT_REMINDER_OFFSETS,
+  now: Date = new Date()
+): string => {
+  const allDay = isAllDayEvent(event);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${toUtcDateTime(now)}`,
+    allDay ? `DTSTART;VALUE=DATE:${toDateOnly(event.start)}` : `DTSTART:${toUtcDateTime(event.start)}`,
+    allDay ? `DTEND;VALUE=DATE:${toDateOnly(event.end || event.start)}` : `DTEND:${toUtcDateTime(event.end || event.start)}`,
+    `SUMMARY:${escapeText(event.title)}`
+  ];
+
+  const description = getDescription(event);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.htmlLink) lines.push(`URL:${event.htmlLink}`);
+
+  reminderMinutes.forEach(minutes => {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-PT${minutes}M`,
+      'END:VALARM'
+    );
+  });
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// File name for a downloaded event, e.g. "monad-ama.ics"
+export const getIcsFileName = (event: CalendarEvent): string => {
+  const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'event'}.ics`;
+};
+
+// Save the event as an .ics file, which Apple Calendar and most other apps can open
+export const downloadEventIcs = (event: CalendarEvent, reminderMinutes?: number[]): void => {
+  const blob = new Blob([buildEventIcs(event, reminderMinutes)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getIcsFileName(event);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const getGoogleCalendarUrl = (event: CalendarEvent): string => {
+  // All-day events use date-only values (end date exclusive), like Google's own format
+  const allDay = isAllDayEvent(event);
+  const start = allDay ? toDateOnly(event.start) : toUtcDateTime(event.start);
+  const end = allDay ? toDateOnly(event.end || event.start) : toUtcDateTime(event.end || event.start);
+
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${start}/${end}`,
+    details: getDescription(event),
+    location: event.location || ''
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+};
+
+export type OutlookAccount = 'personal' | 'work';
+
+// Compose link for Outlook on the web, for personal (outlook.com) or work (Microsoft 365) accounts
+export const getOutlookCalendarUrl = (event: CalendarEvent, account: OutlookAccount = 'personal'): string => {
+  const allDay = isAllDayEvent(event);
+  const host = account === 'work' ? 'https://outlook.office.com' : 'https://outlook.live.com';
+
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: allDay ? event.start.slice(0, 10) : new Date(event.start).toISOString(),
+    enddt: allDay ? (event.end || event.start).slice(0, 10) : new Date(event.end || event.start).toISOString(),
+    body: getDescription(event),
+    location: event.location || ''
+  });
+  if (allDay) params.set('allday', 'true');
+
+  return `${host}/calendar/0/deeplink/compose?${params}`;
+};
+
+// webcal:// link that makes calendar apps offer to subscribe to a feed
+export const getWebcalUrl = (feedUrl: string): string => feedUrl.replace(/^https?:\/\//, 'webcal://');
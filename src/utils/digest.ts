@@ -0,0 +1,108 @@
+import { CalendarEvent } from '../types/calendar';
+import { getEventDayRange, parseEventDate } from './eventLayout';
+import { parseTimeOfDay } from './quietHours';
+import { isValidTimeZone, toZonedWallTime, zonedTimeToUtc } from './timezone';
+
+/**
+ * Email digest: instead of (or besides) per-event reminders, one email in the
+ * morning listing the day's events, or one on a weekday listing the week's.
+ */
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  // Wall-clock send time, "HH:MM"
+  time: string;
+  // Weekday weekly digests are sent on, 0 = Sunday
+  weekday: number;
+  // IANA timezone the send time applies in; empty follows the display timezone
+  timezone: string;
+}
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  frequency: 'off',
+  time: '08:00',
+  weekday: 1,
+  timezone: ''
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Digest settings from stored preferences, with defaults for missing or invalid fields
+export const normalizeDigestSettings = (value: unknown): DigestSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_DIGEST_SETTINGS;
+  const stored = value as Partial<Record<keyof DigestSettings, unknown>>;
+  const { weekday } = stored;
+
+  return {
+    frequency: stored.frequency === 'daily' || stored.frequency === 'weekly' ? stored.frequency : 'off',
+    time: typeof stored.time === 'string' && parseTimeOfDay(stored.time) !== null ? stored.time : DEFAULT_DIGEST_SETTINGS.time,
+    weekday: typeof weekday === 'number' && Number.isInteger(weekday) && weekday >= 0 && weekday <= 6
+      ? weekday
+      : DEFAULT_DIGEST_SETTINGS.weekday,
+    timezone: typeof stored.timezone === 'string' && isValidTimeZone(stored.timezone) ? stored.timezone : ''
+  };
+};
+
+// Timezone a digest is sent in
+export const getDigestTimeZone = (settings: DigestSettings, displayTimeZone: string): string =>
+  settings.timezone || displayTimeZone;
+
+// When the next digest goes out after `now`, or null when digests are off
+export const getNextDigestTime = (settings: DigestSettings, timeZone: string, now: Date = new Date()): Date | null => {
+  const time = parseTimeOfDay(settings.time);
+  if (settings.frequency === 'off' || time === null) return null;
+
+  const wall = toZonedWallTime(now, timeZone);
+  const midnight = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+
+  // Today or one of the following days; a week ahead at most for weekly digests
+  for (let day = 0; day <= 7; day++) {
+    const sendAt = zonedTimeToUtc(midnight + day * DAY_MS + time * 60 * 1000, timeZone);
+    const weekday = new Date(midnight + day * DAY_MS).getUTCDay();
+    if (sendAt.getTime() > now.getTime() && (settings.frequency === 'daily' || weekday === settings.weekday)) {
+      return sendAt;
+    }
+  }
+  return null;
+};
+
+export interface DigestPreview {
+  sendAt: Date;
+  // Calendar days the digest covers (local midnight, like the month grid)
+  days: Date[];
+  events: CalendarEvent[];
+}
+
+/**
+ * The next digest: when it is sent and which events it lists. A daily digest
+ * covers the day it is sent on, a weekly one that day and the six after it,
+ * in the digest's timezone. `isIncluded` leaves out disabled event types.
+ */
+export const buildDigestPreview = (
+  events: CalendarEvent[],
+  settings: DigestSettings,
+  timeZone: string,
+  isIncluded: (event: CalendarEvent) => boolean = () => true,
+  now: Date = new Date()
+): DigestPreview | null => {
+  const sendAt = getNextDigestTime(settings, timeZone, now);
+  if (!sendAt) return null;
+
+  const wall = toZonedWallTime(sendAt, timeZone);
+  const dayCount = settings.frequency === 'weekly' ? 7 : 1;
+  const days = Array.from({ length: dayCount }, (_, index) =>
+    new Date(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + index)
+  );
+  const first = days[0].getTime();
+  const last = days[days.length - 1].getTime();
+
+  const listed = events
+    .filter(event => {
+      const range = getEventDayRange(event, timeZone);
+      return range.first.getTime() <= last && range.last.getTime() >= first && isIncluded(event);
+    })
+    .sort((a, b) => parseEventDate(a.start).getTime() - parseEventDate(b.start).getTime());
+
+  return { sendAt, days, events: listed };
+};
@@ -0,0 +1,213 @@
+import { CalendarEvent } from '../types/calendar';
+import { getTimeZoneOffset } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeekSegment {
+  event: CalendarEvent;
+  // Column (0 = Monday) where the bar starts within the week, and how many days it covers
+  startColumn: number;
+  span: number;
+  // Vertical slot of the bar, so that overlapping bars don't collide
+  lane: number;
+  // Whether the event started before / ends after this week
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+export interface TimedEventLayout {
+  event: CalendarEvent;
+  // Minutes after midnight where the block starts and ends on its day
+  startMinutes: number;
+  endMinutes: number;
+  // Column within its group of overlapping events, and the number of columns in that group
+  column: number;
+  columns: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+// Shortest block drawn in the time grid, so that very short events stay clickable
+const MIN_BLOCK_MINUTES = 20;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Local midnight of the calendar day `date` falls on in `timeZone` (the browser's zone if omitted)
+export const startOfDayIn = (date: Date, timeZone?: string): Date => {
+  if (!timeZone) return startOfDay(date);
+  const wall = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+  return new Date(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Parse an event boundary. Date-only values (all-day events) are local calendar
+// dates, not UTC midnight as `new Date('2025-03-14')` would assume.
+export const parseEventDate = (value: string): Date => {
+  if (DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(value);
+};
+
+export const isAllDayEvent = (event: CalendarEvent): boolean =>
+  event.allDay ?? DATE_ONLY.test(event.start);
+
+/**
+ * First and last calendar day (inclusive, local midnight) an event covers.
+ * All-day events have an exclusive end date, as in Google Calendar and iCalendar.
+ * Timed events ending exactly at midnight don't spill into the next day.
+ * Timed events are placed on the days they fall on in `timeZone`, when given;
+ * all-day events cover the same dates everywhere.
+ */
+export const getEventDayRange = (event: CalendarEvent, timeZone?: string): { first: Date; last: Date } => {
+  const start = parseEventDate(event.start);
+  const end = event.end ? parseEventDate(event.end) : start;
+  const allDay = isAllDayEvent(event);
+  const first = allDay ? startOfDay(start) : startOfDayIn(start, timeZone);
+
+  let last: Date;
+  if (allDay) {
+    last = addDays(startOfDay(end), -1);
+  } else {
+    last = end.getTime() > start.getTime() ? startOfDayIn(new Date(end.getTime() - 1), timeZone) : first;
+  }
+
+  return { first, last: last.getTime() < first.getTime() ? first : last };
+};
+
+export const eventOccursOnDay = (event: CalendarEvent, day: Date, timeZone?: string): boolean => {
+  const { first, last } = getEventDayRange(event, timeZone);
+  const time = startOfDay(day).getTime();
+  return time >= first.getTime() && time <= last.getTime();
+};
+
+// Events rendered as bars in the month grid rather than as single-day chips
+export const isSpanningEvent = (event: CalendarEvent, timeZone?: string): boolean => {
+  const { first, last } = getEventDayRange(event, timeZone);
+  return isAllDayEvent(event) || last.getTime() > first.getTime();
+};
+
+// Number of days since the epoch for the local calendar date, unaffected by DST
+const dayIndex = (date: Date): number =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+
+/**
+ * Lay out spanning events as bars across one week row of the grid.
+ * `weekDays` are the seven days of the row, Monday first.
+ */
+export const layoutWeekSegments = (
+  weekDays: Date[],
+  events: CalendarEvent[],
+  timeZone?: string
+): WeekSegment[] => {
+  const weekFirst = dayIndex(weekDays[0]);
+  const weekLast = dayIndex(weekDays[weekDays.length - 1]);
+
+  const candidates = events
+    .filter(event => isSpanningEvent(event, timeZone))
+    .map(event => {
+      const { first, last } = getEventDayRange(event, timeZone);
+      return { event, first: dayIndex(first), last: dayIndex(last) };
+    })
+    .filter(({ first, last }) => last >= weekFirst && first <= weekLast)
+    // Earlier and longer events get the top lanes
+    .sort((a, b) => a.first - b.first || (b.last - b.first) - (a.last - a.first));
+
+  // Last occupied column of each lane
+  const laneEnds: number[] = [];
+
+  return candidates.map(({ event, first, last }) => {
+    const startColumn = Math.max(first, weekFirst) - weekFirst;
+    const endColumn = Math.min(last, weekLast) - weekFirst;
+
+    let lane = laneEnds.findIndex(end => end < startColumn);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = endColumn;
+
+    return {
+      event,
+      startColumn,
+      span: endColumn - startColumn + 1,
+      lane,
+      continuesBefore: first < weekFirst,
+      continuesAfter: last > weekLast
+    };
+  });
+};
+
+// Monday to Sunday of the week containing `date`
+export const getWeekDays = (date: Date): Date[] => {
+  const monday = addDays(date, -((date.getDay() || 7) - 1));
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+};
+
+// Minutes between the start of `day` and `date`, as seen on a clock in `timeZone`
+export const getMinutesIntoDay = (date: Date, day: Date, timeZone?: string): number => {
+  const offset = timeZone ? getTimeZoneOffset(date, timeZone) : -date.getTimezoneOffset() * 60 * 1000;
+  const dayStart = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate());
+  return (date.getTime() + offset - dayStart) / (60 * 1000);
+};
+
+/**
+ * Lay out the timed events of one day in an hourly grid. Overlapping events
+ * are split into side-by-side columns; each group of overlapping events gets
+ * as many columns as it needs. Multi-day events are expected to be shown
+ * as bars instead and are skipped.
+ */
+export const layoutDayEvents = (day: Date, events: CalendarEvent[], timeZone?: string): TimedEventLayout[] => {
+  const blocks = events
+    .filter(event => !isSpanningEvent(event, timeZone) && eventOccursOnDay(event, day, timeZone))
+    .map(event => {
+      const start = parseEventDate(event.start);
+      const end = event.end ? parseEventDate(event.end) : start;
+      const startMinutes = Math.max(0, getMinutesIntoDay(start, day, timeZone));
+      const endMinutes = Math.min(MINUTES_PER_DAY, getMinutesIntoDay(end, day, timeZone));
+      return {
+        event,
+        startMinutes,
+        endMinutes: Math.max(endMinutes, Math.min(MINUTES_PER_DAY, startMinutes + MIN_BLOCK_MINUTES))
+      };
+    })
+    // Earlier and longer events get the leftmost columns
+    .sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+
+  const layouts: TimedEventLayout[] = [];
+  let group: TimedEventLayout[] = [];
+  // End of the last event in each column of the current group
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach(layout => {
+      layout.columns = columnEnds.length;
+    });
+    group = [];
+    columnEnds = [];
+  };
+
+  blocks.forEach(block => {
+    if (block.startMinutes >= groupEnd) {
+      closeGroup();
+    }
+
+    let column = columnEnds.findIndex(end => end <= block.startMinutes);
+    if (column === -1) {
+      column = columnEnds.length;
+    }
+    columnEnds[column] = block.endMinutes;
+    groupEnd = Math.max(groupEnd, block.endMinutes);
+
+    const layout = { ...block, column, columns: 1 };
+    group.push(layout);
+    layouts.push(layout);
+  });
+  closeGroup();
+
+  return layouts;
+};
@@ -0,0 +1,168 @@
+import { CalendarEvent } from '../types/calendar';
+import { parseEventDate } from './eventLayout';
+
+// [start, end) character offsets of a match within a text
+export type MatchRange = [number, number];
+
+export interface SearchResult {
+  event: CalendarEvent;
+  score: number;
+  titleMatches: MatchRange[];
+  locationMatches: MatchRange[];
+  // Excerpt of the description around the first match, if the description matched
+  snippet: { text: string; matches: MatchRange[] } | null;
+}
+
+interface IndexedEvent {
+  event: CalendarEvent;
+  title: string;
+  description: string;
+  location: string;
+  startTime: number;
+}
+
+export type SearchIndex = IndexedEvent[];
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS = {
+  title: 10,
+  location: 3,
+  description: 1
+};
+// Extra weight for terms matching at the start of a word ("ama" in "Monad AMA")
+const WORD_START_BONUS = 2;
+const SNIPPET_LENGTH = 120;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' '
+};
+
+// Plain text of an HTML event description
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>|<\/p>|<\/div>|<\/li>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Lowercased search terms of a query
+export const tokenize = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+export const buildSearchIndex = (events: CalendarEvent[]): SearchIndex =>
+  events.map(event => ({
+    event,
+    title: event.title,
+    description: stripHtml(event.description || ''),
+    location: event.location || '',
+    startTime: parseEventDate(event.start).getTime()
+  }));
+
+// Every occurrence of the terms in `text`, sorted and merged
+export const findMatches = (text: string, terms: string[]): MatchRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: MatchRange[] = [];
+  terms.forEach(term => {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+};
+
+const isWordStart = (text: string, index: number): boolean => index === 0 || /\W/.test(text[index - 1]);
+
+const scoreField = (text: string, term: string, weight: number): number => {
+  const index = text.toLowerCase().indexOf(term);
+  if (index === -1) return 0;
+  return weight + (isWordStart(text, index) ? WORD_START_BONUS : 0);
+};
+
+const getSnippet = (text: string, terms: string[]): SearchResult['snippet'] => {
+  const matches = findMatches(text, terms);
+  if (matches.length === 0) return null;
+
+  // Start a little before the first match, at a word boundary
+  let start = Math.max(0, matches[0][0] - 30);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < matches[0][0] ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    matches: matches
+      .filter(([from]) => from >= start && from < end)
+      .map(([from, to]) => [from - start + prefix.length, Math.min(to, end) - start + prefix.length] as MatchRange)
+  };
+};
+
+/**
+ * Find events matching every term of `query` in their title, description or
+ * location. Title matches rank highest; among equally good matches upcoming
+ * events come first, soonest first, followed by past events, most recent first.
+ */
+export const searchEvents = (
+  index: SearchIndex,
+  query: string,
+  now: Date = new Date(),
+  limit = 50
+): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  index.forEach(entry => {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = Math.max(
+        scoreField(entry.title, term, FIELD_WEIGHTS.title),
+        scoreField(entry.location, term, FIELD_WEIGHTS.location),
+        scoreField(entry.description, term, FIELD_WEIGHTS.description)
+      );
+      if (termScore === 0) return;
+      score += termScore;
+    }
+
+    results.push({
+      event: entry.event,
+      score,
+      titleMatches: findMatches(entry.title, terms),
+      locationMatches: findMatches(entry.location, terms),
+      snippet: getSnippet(entry.description, terms)
+    });
+  });
+
+  const nowTime = now.getTime();
+  const startTimes = new Map(index.map(entry => [entry.event, entry.startTime]));
+  const timeRank = (event: CalendarEvent) => {
+    const start = startTimes.get(event) ?? 0;
+    // Upcoming events sort before past ones
+    return start >= nowTime ? start - nowTime : Number.MAX_SAFE_INTEGER / 2 + (nowTime - start);
+  };
+
+  return results
+    .sort((a, b) => b.score - a.score || timeRank(a.event) - timeRank(b.event))
+    .slice(0, limit);
+};
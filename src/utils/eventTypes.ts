@@ -0,0 +1,101 @@
+import { CalendarEvent } from '../types/calendar';
+
+/**
+ * Events without an explicit type are grouped into series by title, so that
+ * "Monad AMA #12" and "Monad AMA #13" are one type rather than two. Titles are
+ * normalized by removing what differs between occurrences: emoji, dates and
+ * episode numbers.
+ */
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WEEKDAYS = 'mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?';
+
+const TITLE_NOISE: RegExp[] = [
+  // Emoji, including skin tone modifiers and joiners
+  /\p{Extended_Pictographic}|\p{Emoji_Modifier}|\u200D|\uFE0F/gu,
+  // 2025-03-14, 14/03, 3/14/2025, 14.03.25
+  /\b\d{4}-\d{1,2}-\d{1,2}\b/g,
+  /\b\d{1,2}[/.]\d{1,2}(?:[/.]\d{2,4})?\b/g,
+  // March 14th, 14 March, Mar 14 2025
+  new RegExp(`\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`, 'gi'),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\b\\.?(?:\\s+\\d{4})?`, 'gi'),
+  new RegExp(`\\b(?:${WEEKDAYS})\\b\\.?`, 'gi'),
+  // #12, No. 12, Ep 12, Episode 12, Part 2, Week 3, S2E4
+  /#\s*\d+/g,
+  /\b(?:no|ep|episode|part|pt|vol|volume|week|wk|day|session|round|edition|season)\.?\s*\d+\b/gi,
+  /\bs\d+\s*e\d+\b/gi,
+  // Ordinals and remaining standalone numbers (2nd, 12, 2025)
+  /\b\d+(?:st|nd|rd|th)?\b/gi
+];
+
+// Normalized series name of an event title, e.g. "🎙️ Monad AMA #12 (Mar 14)" -> "Monad AMA"
+export const normalizeEventTitle = (title: string): string => {
+  let normalized = title;
+  TITLE_NOISE.forEach(pattern => {
+    normalized = normalized.replace(pattern, ' ');
+  });
+
+  normalized = normalized
+    // Brackets left empty by the removals above
+    .replace(/\(\s*[-,/|:]*\s*\)|\[\s*[-,/|:]*\s*\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([:,!?])/g, '$1')
+    // Separators left dangling at either end ("Monad AMA -", ": Builders Call")
+    .replace(/^[\s\-–—|:·,/]+|[\s\-–—|:·,/]+$/g, '')
+    .trim();
+
+  return normalized || title.trim();
+};
+
+// Category of an event: its explicit event type, or the series its title belongs to
+export const getEventType = (event: CalendarEvent): string =>
+  event.extendedProperties?.eventType || normalizeEventTitle(event.title);
+
+/**
+ * Resolve the type of each event from a list, keeping recurring series together.
+ * Instances sharing a `recurringEventId` get the same type even when a single
+ * occurrence was renamed; series whose names only differ in case are merged.
+ */
+export const createEventTypeResolver = (events: CalendarEvent[]): ((event: CalendarEvent) => string) => {
+  // Most common type among the instances of each recurring event
+  const seriesCounts = new Map<string, Map<string, number>>();
+  events.forEach(event => {
+    if (!event.recurringEventId || event.extendedProperties?.eventType) return;
+    const counts = seriesCounts.get(event.recurringEventId) || new Map<string, number>();
+    const type = getEventType(event);
+    counts.set(type, (counts.get(type) || 0) + 1);
+    seriesCounts.set(event.recurringEventId, counts);
+  });
+
+  const seriesTypes = new Map<string, string>();
+  seriesCounts.forEach((counts, seriesId) => {
+    const [mostCommon] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    seriesTypes.set(seriesId, mostCommon[0]);
+  });
+
+  // First spelling seen for each case-insensitive name
+  const spellings = new Map<string, string>();
+  const resolve = (event: CalendarEvent): string => {
+    const type = (event.recurringEventId && seriesTypes.get(event.recurringEventId)) || getEventType(event);
+    const key = type.toLowerCase();
+    if (!spellings.has(key)) {
+      spellings.set(key, type);
+    }
+    return spellings.get(key) as string;
+  };
+  // Settle the spellings in list order, so that results don't depend on call order
+  events.forEach(resolve);
+
+  return resolve;
+};
+
+/**
+ * Type among `types` that a stored event type preference applies to. Preferences
+ * saved before events were grouped into series are keyed by the raw event title,
+ * e.g. "Monad AMA #12", and apply to the series that title belongs to.
+ */
+export const matchStoredEventType = (storedType: string, types: string[]): string | null => {
+  if (types.includes(storedType)) return storedType;
+  const series = normalizeEventTitle(storedType).toLowerCase();
+  return types.find(type => type.toLowerCase() === series) || null;
+};
@@ -1,56 +1,54 @@
-import { CalendarEvent } from '../types/calendar';
+import { CalendarDateRange, CalendarEvent, CalendarFetchResult } from '../types/calendar';
+import { toCalendarFetchError } from './calendarErrors';
+import { GoogleCalendarConfig, fetchGoogleCalendarPages, mapGoogleItem } from './googleCalendarApi';
 
-const GOOGLE_API_KEY = 'xxxxxxxxxxxxxxxx'; // Replace with your actual API key
-const CALENDAR_ID = 'df80381b3317c2ce323ec7376a93dd57fbaa8e733452e576b56ace1656198c31@group.calendar.google.com';
+export type { GoogleCalendarConfig } from './googleCalendarApi';
 
-export const fetchGoogleCalendarEvents = async (date: Date): Promise<CalendarEvent[]> => {
+const GOOGLE_API_KEY = import.meta.env.VITE_GOOGLE_API_KEY || 'xxxxxxxxxxxxxxxx'; // Replace with your actual API key
+const CALENDAR_ID = import.meta.env.VITE_GOOGLE_CALENDAR_ID || 'df80381b3317c2ce323ec7376a93dd57fbaa8e733452e576b56ace1656198c31@group.calendar.google.com';
+
+export const DEFAULT_GOOGLE_CALENDAR: GoogleCalendarConfig = {
+  calendarId: CALENDAR_ID,
+  apiKey: GOOGLE_API_KEY
+};
+
+// Calculate the time window fetched for the month containing `date`
+export const getMonthFetchRange = (date: Date): CalendarDateRange => {
+  // Calculate the first and last day of the month in the user's timezone
+  const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+  const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59);
+
+  // Add buffer days to include events from previous/next month that might appear in the grid
+  const bufferDays = 7; // One week buffer to cover all possible days in the grid
+  const timeMin = new Date(startOfMonth);
+  timeMin.setDate(timeMin.getDate() - bufferDays);
+  const timeMax = new Date(endOfMonth);
+  timeMax.setDate(timeMax.getDate() + bufferDays);
+
+  return { timeMin, timeMax };
+};
+
+// Fetch events for a time window from a Google calendar. Throws on failure.
+export const fetchGoogleCalendarRange = async (
+  range: CalendarDateRange,
+  config: GoogleCalendarConfig = DEFAULT_GOOGLE_CALENDAR
+): Promise<CalendarEvent[]> => {
+  const { items, timeZone } = await fetchGoogleCalendarPages({
+    timeMin: range.timeMin.toISOString(),
+    timeMax: range.timeMax.toISOString(),
+    orderBy: 'startTime'
+  }, config);
+
+  return items
+    .filter(item => item.status !== 'cancelled')
+    .map(item => mapGoogleItem(item, timeZone));
+};
+
+export const fetchGoogleCalendarEvents = async (date: Date): Promise<CalendarFetchResult> => {
   try {
-    // Calculate the first and last day of the month in the user's timezone
-    const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
-    const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59);
-    
-    // Add buffer days to include events from previous/next month that might appear in the grid
-    const bufferDays = 7; // One week buffer to cover all possible days in the grid
-    const startDate = new Date(startOfMonth);
-    startDate.setDate(startDate.getDate() - bufferDays);
-    const endDate = new Date(endOfMonth);
-    endDate.setDate(endDate.getDate() + bufferDays);
-    
-    // Convert to ISO strings in UTC but preserve the local timezone context
-    const timeMin = startDate.toISOString();
-    const timeMax = endDate.toISOString();
-
-    const url = `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(CALENDAR_ID)}/events?` +
-      `key=${GOOGLE_API_KEY}&` +
-      `timeMin=${timeMin}&` +
-      `timeMax=${timeMax}&` +
-      `singleEvents=true&` +
-      `orderBy=startTime&` +
-      `maxResults=2500`;
-
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Google Calendar API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.items) {
-      return [];
-    }
-
-    return data.items.map((item: any): CalendarEvent => ({
-      id: item.id,
-      title: item.summary || 'Untitled Event',
-      description: item.description || '',
-      start: item.start.dateTime || item.start.date,
-      end: item.end.dateTime || item.end.date,
-      location: item.location || '',
-      htmlLink: item.htmlLink || ''
-    }));
+    return { ok: true, data: await fetchGoogleCalendarRange(getMonthFetchRange(date)) };
   } catch (error) {
     console.error('Error fetching Google Calendar events:', error);
-    return [];
+    return { ok: false, error: toCalendarFetchError(error, 'google') };
   }
 };
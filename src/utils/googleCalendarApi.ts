@@ -0,0 +1,93 @@
+import { CalendarEvent } from '../types/calendar';
+
+// Google Calendar API access that doesn't depend on the app's configuration
+
+export interface GoogleCalendarConfig {
+  calendarId: string;
+  apiKey: string;
+}
+
+// Subset of the Google Calendar API event resource that we read
+export interface GoogleCalendarItem {
+  id: string;
+  status?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  htmlLink?: string;
+  recurringEventId?: string;
+  start?: { dateTime?: string; date?: string; timeZone?: string };
+  end?: { dateTime?: string; date?: string; timeZone?: string };
+}
+
+export interface GoogleCalendarPages {
+  items: GoogleCalendarItem[];
+  nextSyncToken?: string;
+  // Default timezone of the calendar, used for events without their own
+  timeZone?: string;
+}
+
+// Maximum page size allowed by the events.list endpoint
+const PAGE_SIZE = 2500;
+
+export const mapGoogleItem = (item: GoogleCalendarItem, calendarTimeZone?: string): CalendarEvent => ({
+  id: item.id,
+  title: item.summary || 'Untitled Event',
+  description: item.description || '',
+  start: item.start?.dateTime || item.start?.date || '',
+  end: item.end?.dateTime || item.end?.date || '',
+  // Google marks all-day events with date-only boundaries (end date exclusive)
+  allDay: !item.start?.dateTime && !!item.start?.date,
+  timeZone: item.start?.dateTime ? item.start.timeZone || calendarTimeZone : undefined,
+  location: item.location || '',
+  htmlLink: item.htmlLink || '',
+  recurringEventId: item.recurringEventId
+});
+
+/**
+ * Call events.list and follow nextPageToken until the last page, so that busy
+ * ranges are never silently truncated. Throws an Error carrying the HTTP
+ * `status` and Google's error `reason` on failure (410 means the sync token
+ * has expired).
+ */
+export const fetchGoogleCalendarPages = async (
+  params: Record<string, string>,
+  config: GoogleCalendarConfig
+): Promise<GoogleCalendarPages> => {
+  const items: GoogleCalendarItem[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+  let timeZone: string | undefined;
+
+  do {
+    const query = new URLSearchParams({
+      ...params,
+      key: config.apiKey,
+      singleEvents: 'true',
+      maxResults: String(PAGE_SIZE)
+    });
+    if (pageToken) {
+      query.set('pageToken', pageToken);
+    }
+
+    const url = `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(config.calendarId)}/events?${query}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      // Google puts the machine readable reason (keyInvalid, rateLimitExceeded, ...) in the body
+      const body = await response.json().catch(() => null);
+      throw Object.assign(
+        new Error(`Google Calendar API error: ${response.status} ${response.statusText}`),
+        { status: response.status, reason: body?.error?.errors?.[0]?.reason }
+      );
+    }
+
+    const data = await response.json();
+    items.push(...(data.items || []));
+    pageToken = data.nextPageToken;
+    nextSyncToken = data.nextSyncToken;
+    timeZone = data.timeZone;
+  } while (pageToken);
+
+  return { items, nextSyncToken, timeZone };
+};
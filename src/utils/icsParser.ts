@@ -0,0 +1,649 @@
+import { CalendarDateRange, CalendarEvent } from '../types/calendar';
+import { isValidTimeZone, zonedTimeToUtc } from './timezone';
+
+/**
+ * Minimal RFC 5545 (iCalendar) parser.
+ *
+ * Turns the VEVENTs of an .ics feed into CalendarEvent objects and expands
+ * RRULE / RDATE / EXDATE recurrences inside the requested time window.
+ * Date-times are resolved through their TZID parameter; floating times are
+ * read in the browser's timezone.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Safety net against malformed rules that would never terminate, counted from
+// the first period that can reach the window
+const MAX_RECURRENCE_PERIODS = 10000;
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A DATE or DATE-TIME value, kept in wall-clock form until it is resolved
+interface IcsDateValue {
+  // Wall-clock fields encoded as a UTC timestamp (Date.UTC(...))
+  wall: number;
+  dateOnly: boolean;
+  // 'UTC' for values ending in Z, an IANA name for TZID values, undefined for floating times
+  timeZone?: string;
+}
+
+interface IcsWeekday {
+  weekday: number;
+  ordinal?: number;
+}
+
+interface IcsRecurrenceRule {
+  freq: 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsDateValue;
+  byDay: IcsWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  weekStart: number;
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  url: string;
+  categories: string[];
+  status: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  durationMs?: number;
+  rrule?: IcsRecurrenceRule;
+  exdates: IcsDateValue[];
+  rdates: IcsDateValue[];
+  recurrenceId?: IcsDateValue;
+}
+
+interface Occurrence {
+  start: Date;
+  wall: number;
+}
+
+// Join folded content lines (continuation lines start with a space or tab)
+const unfoldLines = (text: string): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  });
+  return lines;
+};
+
+const parseProperty = (line: string): IcsProperty | null => {
+  // Find the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+const unescapeText = (value: string): string =>
+  value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+
+const parseDateValue = (value: string, params: Record<string, string>): IcsDateValue | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const dateOnly = params.VALUE === 'DATE' || hour === undefined;
+  const wall = Date.UTC(
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    dateOnly ? 0 : parseInt(hour, 10),
+    dateOnly ? 0 : parseInt(minute, 10),
+    dateOnly ? 0 : parseInt(second, 10)
+  );
+
+  let timeZone: string | undefined;
+  if (utc) {
+    timeZone = 'UTC';
+  } else if (params.TZID && isValidTimeZone(params.TZID)) {
+    timeZone = params.TZID;
+  }
+
+  return { wall, dateOnly, timeZone };
+};
+
+// Parse a comma-separated list of dates (EXDATE / RDATE)
+const parseDateList = (property: IcsProperty): IcsDateValue[] =>
+  property.value
+    .split(',')
+    // RDATE;VALUE=PERIOD values are "start/end"; only the start matters here
+    .map(value => parseDateValue(value.split('/')[0], property.params))
+    .filter((value): value is IcsDateValue => value !== null);
+
+// Resolve a wall-clock value to an absolute instant
+const toInstant = (value: IcsDateValue, wall: number = value.wall): Date => {
+  if (value.timeZone === 'UTC') {
+    return new Date(wall);
+  }
+  if (value.timeZone && !value.dateOnly) {
+    return zonedTimeToUtc(wall, value.timeZone);
+  }
+  // All-day and floating values are read in the browser's timezone
+  const date = new Date(wall);
+  return new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  );
+};
+
+const formatDateOnly = (wall: number): string => new Date(wall).toISOString().slice(0, 10);
+
+const parseDuration = (value: string): number | undefined => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * DAY_MS +
+    parseInt(hours || '0', 10) * 60 * 60 * 1000 +
+    parseInt(minutes || '0', 10) * 60 * 1000 +
+    parseInt(seconds || '0', 10) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const parseNumberList = (value?: string): number[] =>
+  value ? value.split(',').map(part => parseInt(part, 10)).filter(n => !isNaN(n)) : [];
+
+const parseRecurrenceRule = (value: string): IcsRecurrenceRule | undefined => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue.toUpperCase();
+  });
+
+  const freq = parts.FREQ as IcsRecurrenceRule['freq'];
+  if (!['MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    return undefined;
+  }
+
+  const byDay = (parts.BYDAY || '')
+    .split(',')
+    .map(day => day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({
+      weekday: WEEKDAYS.indexOf(match[2]),
+      ordinal: match[1] ? parseInt(match[1], 10) : undefined
+    }));
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, {}) || undefined : undefined,
+    byDay,
+    byMonthDay: parseNumberList(parts.BYMONTHDAY),
+    byMonth: parseNumberList(parts.BYMONTH),
+    bySetPos: parseNumberList(parts.BYSETPOS),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1
+  };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const weekdayOf = (dayWall: number): number => new Date(dayWall).getUTCDay();
+
+// All days of a month (or of a whole year) matching a BYDAY entry, honouring ordinals like 2TU or -1FR
+const expandByDay = (days: number[], byDay: IcsWeekday[]): number[] => {
+  const result: number[] = [];
+  byDay.forEach(({ weekday, ordinal }) => {
+    const matching = days.filter(day => weekdayOf(day) === weekday);
+    if (ordinal === undefined) {
+      result.push(...matching);
+    } else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day !== undefined) result.push(day);
+    }
+  });
+  return result;
+};
+
+const daysOfMonth = (year: number, month: number): number[] =>
+  Array.from({ length: daysInMonth(year, month) }, (_, index) => Date.UTC(year, month, index + 1));
+
+// Candidate days of one month for MONTHLY rules (and YEARLY rules with BYMONTH)
+const monthCandidates = (year: number, month: number, rule: IcsRecurrenceRule, startDay: number): number[] => {
+  const monthLength = daysInMonth(year, month);
+
+  let byMonthDays: number[] | undefined;
+  if (rule.byMonthDay.length > 0) {
+    byMonthDays = rule.byMonthDay
+      .map(day => (day < 0 ? monthLength + day + 1 : day))
+      .filter(day => day >= 1 && day <= monthLength)
+      .map(day => Date.UTC(year, month, day));
+  }
+
+  if (rule.byDay.length > 0) {
+    const byDays = expandByDay(daysOfMonth(year, month), rule.byDay);
+    // BYMONTHDAY and BYDAY together means days matching both
+    return byMonthDays ? byDays.filter(day => byMonthDays!.includes(day)) : byDays;
+  }
+
+  if (byMonthDays) return byMonthDays;
+
+  return startDay <= monthLength ? [Date.UTC(year, month, startDay)] : [];
+};
+
+const applySetPos = (candidates: number[], bySetPos: number[]): number[] => {
+  if (bySetPos.length === 0) return candidates;
+  return bySetPos
+    .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter((day): day is number => day !== undefined);
+};
+
+// Wall-clock start of the n-th period (minute, hour, day, week, month or year) of a rule
+const periodStart = (rule: IcsRecurrenceRule, startDayWall: number, period: number): number => {
+  const start = new Date(startDayWall);
+  switch (rule.freq) {
+    case 'MINUTELY':
+      return startDayWall + period * rule.interval * MINUTE_MS;
+    case 'HOURLY':
+      return startDayWall + period * rule.interval * HOUR_MS;
+    case 'DAILY':
+      return startDayWall + period * rule.interval * DAY_MS;
+    case 'WEEKLY': {
+      const offset = (weekdayOf(startDayWall) - rule.weekStart + 7) % 7;
+      return startDayWall - offset * DAY_MS + period * rule.interval * 7 * DAY_MS;
+    }
+    case 'MONTHLY':
+      return Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + period * rule.interval, 1);
+    case 'YEARLY':
+      return Date.UTC(start.getUTCFullYear() + period * rule.interval, 0, 1);
+  }
+};
+
+// Last period of a rule starting at or before `wall`, found by doubling and then halving
+const lastPeriodStartingBy = (rule: IcsRecurrenceRule, startDayWall: number, wall: number): number => {
+  if (periodStart(rule, startDayWall, 0) > wall) return 0;
+  let low = 0;
+  let high = 1;
+  while (periodStart(rule, startDayWall, high) <= wall) {
+    low = high;
+    high *= 2;
+  }
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (periodStart(rule, startDayWall, middle) <= wall) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+// Candidate days (as wall-clock midnights) for the n-th period of a rule; for
+// sub-daily rules, the wall-clock start of the period itself
+const periodCandidates = (rule: IcsRecurrenceRule, startDayWall: number, period: number): number[] => {
+  const start = new Date(startDayWall);
+  const startYear = start.getUTCFullYear();
+  const startMonth = start.getUTCMonth();
+  const startDate = start.getUTCDate();
+  const monthAllowed = (day: number) =>
+    rule.byMonth.length === 0 || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+
+  let candidates: number[] = [];
+
+  switch (rule.freq) {
+    case 'MINUTELY':
+    case 'HOURLY':
+    case 'DAILY': {
+      const day = periodStart(rule, startDayWall, period);
+      const date = new Date(day);
+      const dayAllowed = rule.byDay.length === 0 || rule.byDay.some(({ weekday }) => weekday === date.getUTCDay());
+      const monthDayAllowed = rule.byMonthDay.length === 0 || rule.byMonthDay.includes(date.getUTCDate());
+      candidates = dayAllowed && monthDayAllowed && monthAllowed(day) ? [day] : [];
+      break;
+    }
+    case 'WEEKLY': {
+      const weekStart = periodStart(rule, startDayWall, period);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [weekdayOf(startDayWall)];
+      candidates = weekdays
+        .map(weekday => weekStart + ((weekday - rule.weekStart + 7) % 7) * DAY_MS)
+        .filter(monthAllowed);
+      break;
+    }
+    case 'MONTHLY': {
+      const monthStart = new Date(periodStart(rule, startDayWall, period));
+      const year = monthStart.getUTCFullYear();
+      const month = monthStart.getUTCMonth();
+      if (rule.byMonth.length === 0 || rule.byMonth.includes(month + 1)) {
+        candidates = applySetPos(monthCandidates(year, month, rule, startDate).sort((a, b) => a - b), rule.bySetPos);
+      }
+      break;
+    }
+    case 'YEARLY': {
+      const year = startYear + period * rule.interval;
+      if (rule.byMonth.length > 0) {
+        rule.byMonth.forEach(month => {
+          candidates.push(...monthCandidates(year, month - 1, rule, startDate));
+        });
+      } else if (rule.byDay.length > 0) {
+        // Ordinals are relative to the whole year (e.g. 20MO = 20th Monday of the year)
+        const yearDays = Array.from({ length: 12 }, (_, month) => daysOfMonth(year, month)).flat();
+        candidates = expandByDay(yearDays, rule.byDay);
+      } else if (rule.byMonthDay.length > 0) {
+        for (let month = 0; month < 12; month++) {
+          candidates.push(...monthCandidates(year, month, rule, startDate));
+        }
+      } else if (startDate <= daysInMonth(year, startMonth)) {
+        candidates = [Date.UTC(year, startMonth, startDate)];
+      }
+      candidates = applySetPos(candidates.sort((a, b) => a - b), rule.bySetPos);
+      break;
+    }
+  }
+
+  return candidates.sort((a, b) => a - b);
+};
+
+// Expand an RRULE into occurrence starts up to the end of the window
+const expandRecurrenceRule = (
+  event: IcsEvent,
+  rule: IcsRecurrenceRule,
+  range: CalendarDateRange,
+  durationMs: number
+): Occurrence[] => {
+  const occurrences: Occurrence[] = [];
+  // Sub-daily periods are counted from DTSTART itself rather than from its day
+  const subDaily = rule.freq === 'MINUTELY' || rule.freq === 'HOURLY';
+  const timeOfDay = subDaily ? 0 : ((event.start.wall % DAY_MS) + DAY_MS) % DAY_MS;
+  const startDayWall = event.start.wall - timeOfDay;
+  // A date-only UNTIL includes the whole day
+  const untilMs = rule.until
+    ? toInstant(rule.until).getTime() + (rule.until.dateOnly ? DAY_MS - 1 : 0)
+    : undefined;
+  // Add slack for timezone offsets between wall-clock and absolute time
+  const stopWall = range.timeMax.getTime() + 2 * DAY_MS;
+  // Occurrences of periods starting before this all end before the window. They only
+  // need to be generated to count them against COUNT; otherwise expansion skips ahead.
+  const firstPeriod = rule.count === undefined
+    ? lastPeriodStartingBy(rule, startDayWall, range.timeMin.getTime() - durationMs - 2 * DAY_MS)
+    : 0;
+  let emitted = 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_RECURRENCE_PERIODS; period++) {
+    // Stop once whole periods lie beyond the window, even if they produced no candidates
+    if (periodStart(rule, startDayWall, period) > stopWall) break;
+
+    const candidates = periodCandidates(rule, startDayWall, period);
+    let finished = false;
+
+    for (const day of candidates) {
+      const wall = day + timeOfDay;
+      if (wall < event.start.wall) continue;
+
+      const start = toInstant(event.start, wall);
+      if ((untilMs !== undefined && start.getTime() > untilMs) || wall > stopWall) {
+        finished = true;
+        break;
+      }
+
+      emitted++;
+      if (rule.count !== undefined && emitted > rule.count) {
+        finished = true;
+        break;
+      }
+      occurrences.push({ start, wall });
+    }
+
+    if (finished) break;
+  }
+
+  return occurrences;
+};
+
+const parseVEvent = (properties: IcsProperty[]): IcsEvent | null => {
+  const event: Partial<IcsEvent> = {
+    summary: '',
+    description: '',
+    location: '',
+    url: '',
+    categories: [],
+    status: '',
+    exdates: [],
+    rdates: []
+  };
+
+  properties.forEach(property => {
+    switch (property.name) {
+      case 'UID':
+        event.uid = property.value;
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(property.value);
+        break;
+      case 'DESCRIPTION':
+        event.description = unescapeText(property.value);
+        break;
+      case 'LOCATION':
+        event.location = unescapeText(property.value);
+        break;
+      case 'URL':
+        event.url = property.value;
+        break;
+      case 'CATEGORIES':
+        event.categories!.push(...unescapeText(property.value).split(',').map(category => category.trim()).filter(Boolean));
+        break;
+      case 'STATUS':
+        event.status = property.value.toUpperCase();
+        break;
+      case 'DTSTART':
+        event.start = parseDateValue(property.value, property.params) || undefined;
+        break;
+      case 'DTEND':
+        event.end = parseDateValue(property.value, property.params) || undefined;
+        break;
+      case 'DURATION':
+        event.durationMs = parseDuration(property.value);
+        break;
+      case 'RRULE':
+        event.rrule = parseRecurrenceRule(property.value);
+        break;
+      case 'EXDATE':
+        event.exdates!.push(...parseDateList(property));
+        break;
+      case 'RDATE':
+        event.rdates!.push(...parseDateList(property));
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = parseDateValue(property.value, property.params) || undefined;
+        break;
+    }
+  });
+
+  if (!event.start) return null;
+  if (!event.uid) {
+    event.uid = `${event.summary}-${event.start.wall}`;
+  }
+
+  return event as IcsEvent;
+};
+
+// Duration of one occurrence, from DTEND or DURATION (all-day events default to one day)
+const getDurationMs = (event: IcsEvent): number => {
+  if (event.end) {
+    return toInstant(event.end).getTime() - toInstant(event.start).getTime();
+  }
+  if (event.durationMs !== undefined) {
+    return event.durationMs;
+  }
+  return event.start.dateOnly ? DAY_MS : 0;
+};
+
+const formatInstanceId = (start: Date): string => start.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+const toCalendarEvent = (event: IcsEvent, occurrence: Occurrence, durationMs: number, isInstance: boolean): CalendarEvent => {
+  const calendarEvent: CalendarEvent = {
+    id: isInstance ? `${event.uid}_${formatInstanceId(occurrence.start)}` : event.uid,
+    title: event.summary || 'Untitled Event',
+    description: event.description,
+    start: '',
+    end: '',
+    allDay: event.start.dateOnly,
+    location: event.location,
+    htmlLink: event.url
+  };
+
+  if (isInstance) {
+    calendarEvent.recurringEventId = event.uid;
+  }
+
+  if (event.start.dateOnly) {
+    // Same shape as Google all-day events: date-only strings with an exclusive end date
+    const days = Math.max(1, Math.round(durationMs / DAY_MS));
+    calendarEvent.start = formatDateOnly(occurrence.wall);
+    calendarEvent.end = formatDateOnly(occurrence.wall + days * DAY_MS);
+  } else {
+    calendarEvent.start = occurrence.start.toISOString();
+    calendarEvent.end = new Date(occurrence.start.getTime() + durationMs).toISOString();
+    // Floating times have no zone of their own and follow the viewer
+    if (event.start.timeZone) {
+      calendarEvent.timeZone = event.start.timeZone;
+    }
+  }
+
+  if (event.categories.length > 0) {
+    calendarEvent.extendedProperties = { eventType: event.categories[0] };
+  }
+
+  return calendarEvent;
+};
+
+const overlapsRange = (start: Date, durationMs: number, range: CalendarDateRange): boolean =>
+  start.getTime() <= range.timeMax.getTime() &&
+  start.getTime() + durationMs >= range.timeMin.getTime();
+
+// Read all VEVENT blocks from an iCalendar document
+const readVEvents = (text: string): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  // Depth of nested components (e.g. VALARM) inside the current VEVENT
+  let nested = 0;
+
+  unfoldLines(text).forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && current === null) {
+        current = [];
+      } else if (current !== null) {
+        nested++;
+      }
+    } else if (property.name === 'END') {
+      if (current !== null && nested > 0) {
+        nested--;
+      } else if (current !== null && property.value.toUpperCase() === 'VEVENT') {
+        const event = parseVEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current !== null && nested === 0) {
+      current.push(property);
+    }
+  });
+
+  return events;
+};
+
+/**
+ * Parse an iCalendar document and return the events that overlap `range`,
+ * with recurring events expanded into individual instances.
+ */
+export const parseIcsCalendar = (text: string, range: CalendarDateRange): CalendarEvent[] => {
+  const vevents = readVEvents(text);
+  const result: CalendarEvent[] = [];
+
+  // Modified instances (RECURRENCE-ID) replace the generated occurrence of their series
+  const overrides = new Map<string, Set<number>>();
+  vevents.forEach(event => {
+    if (event.recurrenceId) {
+      const overridden = overrides.get(event.uid) || new Set<number>();
+      overridden.add(toInstant(event.recurrenceId).getTime());
+      overrides.set(event.uid, overridden);
+    }
+  });
+
+  vevents.forEach(event => {
+    if (event.status === 'CANCELLED') return;
+
+    const durationMs = getDurationMs(event);
+    const isRecurring = !!event.rrule || event.rdates.length > 0;
+
+    if (!isRecurring || event.recurrenceId) {
+      const start = toInstant(event.start);
+      if (overlapsRange(start, durationMs, range)) {
+        const id = event.recurrenceId ? formatInstanceId(toInstant(event.recurrenceId)) : '';
+        const calendarEvent = toCalendarEvent(event, { start, wall: event.start.wall }, durationMs, false);
+        if (id) calendarEvent.id = `${event.uid}_${id}`;
+        result.push(calendarEvent);
+      }
+      return;
+    }
+
+    const occurrences: Occurrence[] = event.rrule
+      ? expandRecurrenceRule(event, event.rrule, range, durationMs)
+      : [{ start: toInstant(event.start), wall: event.start.wall }];
+
+    event.rdates.forEach(rdate => {
+      occurrences.push({ start: toInstant(rdate), wall: rdate.wall });
+    });
+
+    const excluded = new Set(event.exdates.map(exdate => toInstant(exdate).getTime()));
+    overrides.get(event.uid)?.forEach(time => excluded.add(time));
+
+    const seen = new Set<number>();
+    occurrences
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+      .forEach(occurrence => {
+        const time = occurrence.start.getTime();
+        if (excluded.has(time) || seen.has(time)) return;
+        seen.add(time);
+        if (overlapsRange(occurrence.start, durationMs, range)) {
+          result.push(toCalendarEvent(event, occurrence, durationMs, true));
+        }
+      });
+  });
+
+  return result.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+};
@@ -0,0 +1,65 @@
+import { CalendarEvent } from '../types/calendar';
+import { isAllDayEvent, parseEventDate } from './eventLayout';
+import { QuietHours, applyQuietHours } from './quietHours';
+import { formatReminderOffset, getReminderTime } from './reminders';
+
+/**
+ * Reminders computed in the page from the loaded events, for browsers where
+ * push doesn't work. They fire only while the app is open.
+ */
+export interface LocalReminder {
+  // Shared with server push, so the same reminder isn't shown twice
+  key: string;
+  event: CalendarEvent;
+  minutesBefore: number;
+  // When the reminder is due, after quiet hours
+  dueAt: Date;
+}
+
+// Reminders this late, e.g. because the tab was asleep, are dropped rather than shown
+export const LOCAL_REMINDER_LATE_LIMIT_MS = 15 * 60 * 1000;
+
+// Identifies one reminder of an event, in local reminders and push payloads alike
+export const getReminderKey = (eventId: string, minutesBefore: number): string => `${eventId}:${minutesBefore}`;
+
+/**
+ * Reminders of `events` that are due at `now`: past their time, but by less
+ * than `lateLimitMs`. `getOffsets` gives the minutes before each event to
+ * remind at, an empty list for events without reminders. Reminders in quiet
+ * hours are moved to the end of the window or dropped, as set.
+ */
+export const getDueReminders = (
+  events: CalendarEvent[],
+  getOffsets: (event: CalendarEvent) => number[],
+  quietHours: QuietHours,
+  timeZone: string,
+  now: Date = new Date(),
+  lateLimitMs: number = LOCAL_REMINDER_LATE_LIMIT_MS
+): LocalReminder[] => {
+  const due = new Map<string, LocalReminder>();
+
+  events.forEach(event => {
+    // All-day events don't get timed reminders
+    if (isAllDayEvent(event)) return;
+    const start = parseEventDate(event.start);
+
+    getOffsets(event).forEach(minutesBefore => {
+      const key = getReminderKey(event.id, minutesBefore);
+      const outcome = applyQuietHours(getReminderTime(start, minutesBefore), quietHours, timeZone);
+      if (due.has(key) || outcome.action === 'suppress') return;
+
+      const late = now.getTime() - outcome.at.getTime();
+      if (late >= 0 && late < lateLimitMs) {
+        due.set(key, { key, event, minutesBefore, dueAt: outcome.at });
+      }
+    });
+  });
+
+  return Array.from(due.values()).sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+};
+
+// "Starts in 10 minutes", measured from when the reminder is shown
+export const formatTimeUntilStart = (event: CalendarEvent, now: Date = new Date()): string => {
+  const minutes = Math.round((parseEventDate(event.start).getTime() - now.getTime()) / (60 * 1000));
+  return minutes > 0 ? `Starts in ${formatReminderOffset(minutes)}` : 'Starting now';
+};
@@ -0,0 +1,143 @@
+import { CalendarEvent } from '../types/calendar';
+import { isAllDayEvent, parseEventDate } from './eventLayout';
+import { getReminderTime } from './reminders';
+import { toZonedWallTime, zonedTimeToUtc } from './timezone';
+
+/**
+ * Quiet hours: a daily window, in the user's timezone, in which no reminders
+ * are sent. A window belongs to the weekday it starts on, so "22:00 - 07:00
+ * on Friday" covers Friday night until Saturday morning.
+ */
+export interface QuietHours {
+  enabled: boolean;
+  // Wall-clock times, "HH:MM"; an end before the start wraps past midnight
+  start: string;
+  end: string;
+  // Weekdays the window starts on, 0 = Sunday
+  days: number[];
+  // Drop reminders inside the window, or send them when it ends
+  behavior: 'suppress' | 'defer';
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+  days: [0, 1, 2, 3, 4, 5, 6],
+  behavior: 'defer'
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Minutes since midnight of an "HH:MM" time, or null if it isn't one
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = TIME_PATTERN.exec(time);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+// Quiet hours from stored preferences, with defaults for missing or invalid fields
+export const normalizeQuietHours = (value: unknown): QuietHours => {
+  if (!value || typeof value !== 'object') return DEFAULT_QUIET_HOURS;
+  const stored = value as Partial<Record<keyof QuietHours, unknown>>;
+  const validTime = (time: unknown, fallback: string) =>
+    typeof time === 'string' && parseTimeOfDay(time) !== null ? time : fallback;
+
+  return {
+    enabled: stored.enabled === true,
+    start: validTime(stored.start, DEFAULT_QUIET_HOURS.start),
+    end: validTime(stored.end, DEFAULT_QUIET_HOURS.end),
+    days: Array.isArray(stored.days)
+      ? Array.from(new Set(stored.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)))
+          .sort((a, b) => a - b)
+      : DEFAULT_QUIET_HOURS.days,
+    behavior: stored.behavior === 'suppress' ? 'suppress' : 'defer'
+  };
+};
+
+/**
+ * End of the quiet hours window `date` falls in, or null when it isn't in one.
+ * A window whose start and end are equal lasts the whole day.
+ */
+export const getQuietHoursEnd = (date: Date, quietHours: QuietHours, timeZone: string): Date | null => {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (!quietHours.enabled || start === null || end === null) return null;
+
+  const wall = toZonedWallTime(date, timeZone);
+  const minutes = wall.getUTCHours() * 60 + wall.getUTCMinutes();
+  const weekday = wall.getUTCDay();
+  const previousWeekday = (weekday + 6) % 7;
+  const length = (end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+
+  // Minutes since the window started today or yesterday, if it is still running
+  let elapsed: number | null = null;
+  if (quietHours.days.includes(weekday) && minutes >= start && minutes - start < length) {
+    elapsed = minutes - start;
+  } else if (quietHours.days.includes(previousWeekday) && minutes + MINUTES_PER_DAY - start < length) {
+    elapsed = minutes + MINUTES_PER_DAY - start;
+  }
+  if (elapsed === null) return null;
+
+  const midnight = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+  const endWallTime = midnight + (minutes - elapsed + length) * 60 * 1000;
+  return zonedTimeToUtc(endWallTime, timeZone);
+};
+
+export const isInQuietHours = (date: Date, quietHours: QuietHours, timeZone: string): boolean =>
+  getQuietHoursEnd(date, quietHours, timeZone) !== null;
+
+export type QuietHoursOutcome =
+  | { action: 'send'; at: Date }
+  | { action: 'defer'; at: Date }
+  | { action: 'suppress' };
+
+// What happens to a reminder due at `date`
+export const applyQuietHours = (date: Date, quietHours: QuietHours, timeZone: string): QuietHoursOutcome => {
+  const end = getQuietHoursEnd(date, quietHours, timeZone);
+  if (!end) return { action: 'send', at: date };
+  return quietHours.behavior === 'defer' ? { action: 'defer', at: end } : { action: 'suppress' };
+};
+
+export interface QuietHoursPreviewItem {
+  event: CalendarEvent;
+  minutesBefore: number;
+  reminderTime: Date;
+  outcome: QuietHoursOutcome;
+}
+
+/**
+ * Reminders of upcoming events that quiet hours would hold back, soonest
+ * first. `getOffsets` gives the reminder offsets of each event, as
+ * `getDueReminders` takes them. Used to show the effect of the settings before saving them.
+ */
+export const previewQuietHours = (
+  events: CalendarEvent[],
+  getOffsets: (event: CalendarEvent) => number[],
+  quietHours: QuietHours,
+  timeZone: string,
+  now: Date = new Date(),
+  days = 7
+): QuietHoursPreviewItem[] => {
+  const until = now.getTime() + days * MINUTES_PER_DAY * 60 * 1000;
+  const items: QuietHoursPreviewItem[] = [];
+
+  events.forEach(event => {
+    // All-day events don't get timed reminders
+    if (isAllDayEvent(event)) return;
+    const start = parseEventDate(event.start);
+
+    // The same offset on both channels is one reminder time
+    new Set(getOffsets(event)).forEach(minutesBefore => {
+      const reminderTime = getReminderTime(start, minutesBefore);
+      if (reminderTime.getTime() < now.getTime() || reminderTime.getTime() > until) return;
+
+      const outcome = applyQuietHours(reminderTime, quietHours, timeZone);
+      if (outcome.action !== 'send') {
+        items.push({ event, minutesBefore, reminderTime, outcome });
+      }
+    });
+  });
+
+  return items.sort((a, b) => a.reminderTime.getTime() - b.reminderTime.getTime());
+};
@@ -0,0 +1,84 @@
+export type ReminderChannel = 'push' | 'email';
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  push: 'Browser notification',
+  email: 'Email'
+};
+
+// Offsets offered as shortcuts, in minutes before the event
+export const REMINDER_OFFSET_PRESETS = [0, 5, 10, 15, 30, 60, 120, 180, 1440, 2880];
+
+// Reminders sent when the user hasn't chosen any: 1 hour and 10 minutes before
+export const DEFAULT_REMINDER_OFFSETS = [60, 10];
+
+// Longest supported offset: one week
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+export const isValidReminderOffset = (minutes: number): boolean =>
+  Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_REMINDER_MINUTES;
+
+// Valid offsets without duplicates, longest first, or null if `offsets` isn't a list
+export const normalizeReminderOffsets = (offsets: unknown): number[] | null => {
+  if (!Array.isArray(offsets)) return null;
+  const valid = offsets.map(Number).filter(isValidReminderOffset);
+  return Array.from(new Set(valid)).sort((a, b) => b - a);
+};
+
+// Offsets matching the former "1 hour before" and "10 minutes before" toggles, which defaulted to on
+export const offsetsFromLegacyFlags = (oneHourBefore: unknown, tenMinutesBefore: unknown): number[] => [
+  ...(oneHourBefore !== false ? [60] : []),
+  ...(tenMinutesBefore !== false ? [10] : [])
+];
+
+export interface ChannelReminderOffsets {
+  email: number[];
+  browser: number[];
+}
+
+// Offsets an event type sets itself; a null channel follows the global offsets
+export interface ChannelReminderOverride {
+  email: number[] | null;
+  browser: number[] | null;
+}
+
+/**
+ * Reminder offsets for an event type: the type's own offsets where it has
+ * them, the global ones otherwise. An empty list turns a channel off for the type.
+ * `override` is what the type sets itself, or null if it follows the global offsets.
+ */
+export const resolveTypeReminderOffsets = (
+  override: { email?: unknown; browser?: unknown },
+  global: ChannelReminderOffsets
+): ChannelReminderOffsets & { override: ChannelReminderOverride | null } => {
+  const email = normalizeReminderOffsets(override.email);
+  const browser = normalizeReminderOffsets(override.browser);
+  return {
+    email: email ?? global.email,
+    browser: browser ?? global.browser,
+    override: email !== null || browser !== null ? { email, browser } : null
+  };
+};
+
+// Human readable offset, e.g. 90 -> "1 hour 30 minutes", 0 -> "At start time"
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes === 0) return 'At start time';
+
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  return [
+    days > 0 ? plural(days, 'day') : '',
+    hours > 0 ? plural(hours, 'hour') : '',
+    rest > 0 ? plural(rest, 'minute') : ''
+  ].filter(Boolean).join(' ');
+};
+
+// Offset as shown next to a reminder, e.g. "1 day before"
+export const formatReminderLabel = (minutes: number): string =>
+  minutes === 0 ? formatReminderOffset(minutes) : `${formatReminderOffset(minutes)} before`;
+
+// When a reminder `minutes` before `start` fires
+export const getReminderTime = (start: Date, minutes: number): Date =>
+  new Date(start.getTime() - minutes * 60 * 1000);
@@ -0,0 +1,37 @@
+// Route patterns of the calendar, shared by the router and the links built in the app
+export const ROUTES = {
+  month: '/:year/:month',
+  day: '/day/:date',
+  event: '/event/:id'
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const getMonthPath = (date: Date): string =>
+  `/${date.getFullYear()}/${pad(date.getMonth() + 1)}`;
+
+export const getDayPath = (date: Date): string =>
+  `/day/${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const getEventPath = (id: string): string => `/event/${encodeURIComponent(id)}`;
+
+// Hash of an event route that downloads the event as an ICS file, used by the
+// "Add to calendar" notification action
+export const ADD_TO_CALENDAR_HASH = '#add-to-calendar';
+
+// First day of the month in a /:year/:month route, or null if the params are not a valid month
+export const parseMonthParams = (year?: string, month?: string): Date | null => {
+  if (!year || !month || !/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month)) return null;
+  const monthIndex = Number(month) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  return new Date(Number(year), monthIndex, 1);
+};
+
+// Local date of a /day/:date route (YYYY-MM-DD), or null if it is not a real date
+export const parseDayParam = (value?: string): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
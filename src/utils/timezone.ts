@@ -0,0 +1,100 @@
+// Timezone helpers built on Intl, so that we don't need a tz database dependency
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Check whether the runtime knows an IANA timezone name
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+// Convert a wall-clock time in `timeZone` to an absolute Date.
+// `wallTime` holds the wall-clock fields encoded as a UTC timestamp (Date.UTC(...)).
+export const zonedTimeToUtc = (wallTime: number, timeZone: string): Date => {
+  // First guess using the offset at the wall time, then correct it once for DST transitions
+  const firstGuess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallTime - offset);
+};
+
+// Wall-clock fields of an instant in `timeZone`, encoded as a UTC date (the inverse of zonedTimeToUtc)
+export const toZonedWallTime = (date: Date, timeZone: string): Date =>
+  new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+
+const DISPLAY_TIMEZONE_KEY = 'monad-pulse-timezone';
+export const TIMEZONE_CHANGE_EVENT = 'monad-pulse:timezone-change';
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Timezone the user chose to display times in, defaulting to the browser's
+export const getDisplayTimeZone = (): string => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(DISPLAY_TIMEZONE_KEY) : null;
+  return stored && isValidTimeZone(stored) ? stored : getBrowserTimeZone();
+};
+
+export const setDisplayTimeZone = (timeZone: string): void => {
+  if (!isValidTimeZone(timeZone)) return;
+  localStorage.setItem(DISPLAY_TIMEZONE_KEY, timeZone);
+  window.dispatchEvent(new CustomEvent(TIMEZONE_CHANGE_EVENT, { detail: timeZone }));
+};
+
+// All IANA timezones known to the runtime, for the timezone selector
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  const browserZone = getBrowserTimeZone();
+  return zones.includes(browserZone) ? zones : [browserZone, ...zones];
+};
+
+// Whether two timezones currently show a different wall-clock time
+export const hasDifferentOffset = (date: Date, timeZoneA: string, timeZoneB: string): boolean =>
+  getTimeZoneOffset(date, timeZoneA) !== getTimeZoneOffset(date, timeZoneB);
+
+// Format a date in a timezone using the browser's locale
+export const formatInTimeZone = (
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+): string => date.toLocaleString(undefined, { ...options, timeZone });
+
+// Weekday names in the browser's locale, Sunday first (5 January 2025 was a Sunday)
+export const getWeekdayNames = (weekday: 'short' | 'long'): string[] =>
+  Array.from({ length: 7 }, (_, day) =>
+    new Date(Date.UTC(2025, 0, 5 + day)).toLocaleDateString(undefined, { weekday, timeZone: 'UTC' })
+  );
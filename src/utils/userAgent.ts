@@ -0,0 +1,43 @@
+/**
+ * Best guess of the browser and operating system behind a user agent string,
+ * to tell a user's devices apart. Order matters: Edge, Opera and Samsung
+ * Internet also claim to be Chrome, and every Chromium browser claims Safari.
+ */
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\/|Chromium\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>): string | null =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+export interface UserAgentInfo {
+  browser: string | null;
+  os: string | null;
+}
+
+export const parseUserAgent = (userAgent: string): UserAgentInfo => ({
+  browser: match(userAgent, BROWSERS),
+  os: match(userAgent, OPERATING_SYSTEMS)
+});
+
+// "Firefox on Windows", or as much of it as can be told
+export const describeUserAgent = (userAgent: string | null | undefined): string => {
+  const { browser, os } = parseUserAgent(userAgent || '');
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};